@@ -1,4 +1,6 @@
 import '@/app/globals.css';
+import { TestTypeProvider } from '@/contexts/TestTypeContext';
+import { UnitSystemProvider } from '@/contexts/UnitSystemContext';
 
 export default function RootLayout({
   children
@@ -7,7 +9,11 @@ export default function RootLayout({
 }>) {
   return (
     <html lang="en">
-      <body>{children}</body>
+      <body>
+        <TestTypeProvider>
+          <UnitSystemProvider>{children}</UnitSystemProvider>
+        </TestTypeProvider>
+      </body>
     </html>
   );
 }
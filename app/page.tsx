@@ -1,17 +1,65 @@
 'use client';
 import ActionButtons from '@/components/ActionButtons';
 import AnalysisTopControls from '@/components/AnalysisTopControls';
+import CalibrationPanel from '@/components/CalibrationPanel';
+import CameraControls from '@/components/CameraControls';
 import CameraDisplay from '@/components/CameraDisplay';
+import CrosshairEditPanel from '@/components/CrosshairEditPanel';
+import ImportImageButton from '@/components/ImportImageButton';
 import InfoOverlay from '@/components/InfoOverlay';
+import PadProposalsPanel from '@/components/PadProposalsPanel';
 import ResultsModal from '@/components/ResultsModal';
+import StraightenPanel from '@/components/StraightenPanel';
+import TemplateControls from '@/components/TemplateControls';
 import Toast from '@/components/Toast';
 import TouchButton from '@/components/TouchButton';
+import UnitSystemSelect from '@/components/UnitSystemSelect';
+import { ANALYSIS_ERROR_TITLES, CAPTURE_FRAME_COUNT_STORAGE_KEY, IMAGE_QUALITY_GATE, MULTI_FRAME_CAPTURE } from '@/constants/appConstants';
 import { M3Colors, TypographyScale } from '@/constants/themeConstants';
+import { useTestTypes } from '@/contexts/TestTypeContext';
+import { useAutoCapture } from '@/hooks/useAutoCapture';
+import { useCalibrations } from '@/hooks/useCalibrations';
 import { useCameraStream } from '@/hooks/useCameraStream';
+import { useColourTable } from '@/hooks/useColourTable';
+import { useImageImport } from '@/hooks/useImageImport';
+import { useImageQuality } from '@/hooks/useImageQuality';
+import { useImageSampler } from '@/hooks/useImageSampler';
+import { useImageSize } from '@/hooks/useImageSize';
+import { useStripTemplates } from '@/hooks/useStripTemplates';
+import { useUndoableState } from '@/hooks/useUndoableState';
 import { sendAnalysisData } from '@/services/analysisService';
-import { ConcentrationResponse, PlacedCrosshair, TestType } from '@/types';
+import {
+  AppliedCameraSettings,
+  Calibration,
+  ConcentrationResponse,
+  NormalizedPoint,
+  PlacedCrosshair,
+  ProposedCrosshair,
+  SamplingRegion,
+  StripRectification,
+  StripTemplate,
+  TestType
+} from '@/types';
+import { applyCalibration, buildCalibration } from '@/utils/calibration';
+import { createPointId, describePosition, renumberCrosshairs, withSampledColors } from '@/utils/crosshairUtils';
+import { computeDerivedMetrics } from '@/utils/derivedMetrics';
+import { captureAveragedFrame, FrameMotionError } from '@/utils/frameAveraging';
+import { importImageFile } from '@/utils/imageImport';
+import { analyzeImageQuality } from '@/utils/imageQuality';
+import { estimateConcentrationsLocally } from '@/utils/localEstimation';
+import { detectCrosshairProposals, detectStripCornersInImage } from '@/utils/padDetection';
+import { DEFAULT_STRIP_CORNERS, rectifyStripImage } from '@/utils/perspective';
+import { getReplicateGroups, summarizeReplicates } from '@/utils/replicates';
+import { loadFromStorage, saveToStorage } from '@/utils/storageUtils';
+import { applyTemplate } from '@/utils/stripTemplates';
 import { extractZoomedFrame } from '@/utils/zoomUtils';
-import { useCallback, useMemo, useRef, useState } from 'react';
+import { SetStateAction, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+// Stored frame count, limited to the offered choices so a corrupted value cannot set how many frames are accumulated
+const loadCaptureFrameCount = (): number => {
+  const stored = loadFromStorage<unknown>(CAPTURE_FRAME_COUNT_STORAGE_KEY, 1);
+  return MULTI_FRAME_CAPTURE.frameCounts.includes(stored as number) ? (stored as number) : 1;
+};
 
 /**
  * Biomedical Device Analysis Interface
@@ -25,44 +73,111 @@ import { useCallback, useMemo, useRef, useState } from 'react';
  * - Exactly ONE white reference point (for color calibration)
  * - At least ONE analysis point (ALB, ALP, or CREATININE)
  * - Consistent 2.5x zoom for accurate color measurement
- * - High-quality image capture (92% JPEG quality)
+ * - High-quality image capture (lossless by default, see CAPTURE_PROFILE)
  *
  * Point IDs are preserved throughout the workflow to match
  * backend results with frontend crosshair positions.
  */
 export default function CameraAppPage() {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const [currentTestType, setCurrentTestType] = useState<TestType>('WHITE');
+  const testTypes = useTestTypes();
+  const [currentTestType, setCurrentTestType] = useState<TestType>(testTypes.referenceType.id);
+  const referenceLimitMessage = `Only ONE ${testTypes.referenceType.name.toLowerCase()} allowed.`;
   const [toastMessage, setToastMessage] = useState<string>('');
+  const [announcement, setAnnouncement] = useState<string>(''); // Screen reader live region for placement actions
   const [capturedImageDataUrl, setCapturedImageDataUrl] = useState<string | null>(null);
+  const [captureCameraSettings, setCaptureCameraSettings] = useState<AppliedCameraSettings | null>(null);
   const [showInfoOverlay, setShowInfoOverlay] = useState(true);
-  const [placedCrosshairs, setPlacedCrosshairs] = useState<PlacedCrosshair[]>([]);
+  const [autoCaptureEnabled, setAutoCaptureEnabled] = useState<boolean>(false);
+  const [captureFrameCount, setCaptureFrameCount] = useState<number>(loadCaptureFrameCount);
+  // Crosshair edits are undoable; switching to a new image resets the history
+  const {
+    state: placedCrosshairs,
+    setState: setCrosshairHistory,
+    reset: resetPlacedCrosshairs,
+    undo: undoCrosshairs,
+    redo: redoCrosshairs,
+    endGroup: endCrosshairEditGroup,
+    canUndo,
+    canRedo
+  } = useUndoableState<PlacedCrosshair[]>([]);
+  const [proposedCrosshairs, setProposedCrosshairs] = useState<ProposedCrosshair[]>([]);
+  const [selectedProposalId, setSelectedProposalId] = useState<string | null>(null);
+  const [selectedCrosshairId, setSelectedCrosshairId] = useState<string | null>(null);
+  // Perspective correction: capturedImageDataUrl holds the rectified image once applied
+  const [originalImageDataUrl, setOriginalImageDataUrl] = useState<string | null>(null);
+  const [rectification, setRectification] = useState<StripRectification | null>(null);
+  const [stripCorners, setStripCorners] = useState<NormalizedPoint[] | null>(null); // Non-null while straightening
+  const [stripCornersDetected, setStripCornersDetected] = useState<boolean>(false);
+  const [isRectifying, setIsRectifying] = useState<boolean>(false);
 
   const [analysisResult, setAnalysisResult] = useState<ConcentrationResponse[] | null>(null);
   const [isLoadingAnalysis, setIsLoadingAnalysis] = useState<boolean>(false);
+  const [analysisStatus, setAnalysisStatus] = useState<string>(''); // Progress shown while analysing, e.g. retry countdowns
+  const analysisControllerRef = useRef<AbortController | null>(null); // Cancels the analysis request in flight
   const [showResultsModal, setShowResultsModal] = useState<boolean>(false);
+  const [analysisCalibration, setAnalysisCalibration] = useState<Calibration | null>(null); // Calibration the shown results were adjusted with
+  const [isCalibrating, setIsCalibrating] = useState<boolean>(false); // Placed points are standards for a calibration run
   const [isPostAnalysis, setIsPostAnalysis] = useState<boolean>(false);
 
   const handleStreamError = useCallback((message: string) => {
     setToastMessage(message);
   }, []);
 
-  useCameraStream({
+  const isLiveViewActive = !showInfoOverlay && !capturedImageDataUrl && !isLoadingAnalysis;
+
+  const {
+    devices,
+    preferences,
+    selectDevice,
+    selectResolution,
+    featureSupport,
+    lockedSettings,
+    toggleSettingsLock,
+    torchOn,
+    toggleTorch,
+    getAppliedSettings
+  } = useCameraStream({
     videoRef,
-    enabled: !showInfoOverlay && !capturedImageDataUrl && !isLoadingAnalysis, // Disable stream during analysis too
+    enabled: isLiveViewActive, // Disable stream during analysis too
     onStreamError: handleStreamError
   });
 
+  const liveQuality = useImageQuality({ videoRef, enabled: isLiveViewActive });
+  const imageSampler = useImageSampler(capturedImageDataUrl);
+  const imageSize = useImageSize(capturedImageDataUrl);
+
+  // Every crosshair update records the colour under new and moved points
+  const setPlacedCrosshairs = useCallback(
+    (update: SetStateAction<PlacedCrosshair[]>, options?: { group?: string }) => {
+      setCrosshairHistory((prev) => {
+        const next = typeof update === 'function' ? update(prev) : update;
+        return imageSampler ? withSampledColors(next, prev, imageSampler.sample) : next;
+      }, options);
+    },
+    [setCrosshairHistory, imageSampler]
+  );
+
+  // A registry loaded from the backend may not contain the type picked so far
+  useEffect(() => {
+    if (!testTypes.has(currentTestType)) setCurrentTestType(testTypes.referenceType.id);
+  }, [testTypes, currentTestType]);
+
   const resetToCaptureState = useCallback(() => {
     setCapturedImageDataUrl(null);
-    setPlacedCrosshairs([]);
+    setOriginalImageDataUrl(null);
+    setRectification(null);
+    setStripCorners(null);
+    setCaptureCameraSettings(null);
+    resetPlacedCrosshairs([]);
+    setSelectedCrosshairId(null);
     setAnalysisResult(null);
     setShowResultsModal(false);
     setToastMessage('');
     setIsLoadingAnalysis(false);
-    setCurrentTestType('ALB');
+    setCurrentTestType(testTypes.analyteTypes[0].id);
     setIsPostAnalysis(false);
-  }, []);
+  }, [resetPlacedCrosshairs, testTypes]);
 
   const handleEditPoints = useCallback(() => {
     setAnalysisResult(null);
@@ -72,45 +187,113 @@ export default function CameraAppPage() {
     // Keep placedCrosshairs and capturedImageDataUrl intact
   }, []);
 
-  const handleCaptureImage = useCallback(async () => {
+  // Resolves to whether an image was captured, so auto-capture can pause after a blocked attempt
+  const handleCaptureImage = useCallback(async (): Promise<boolean> => {
     const video = videoRef.current;
     if (!video?.readyState || video.videoWidth === 0) {
       setToastMessage('Video stream not ready. Please ensure camera access is granted.');
-      return;
+      return false;
     }
 
     try {
-      // High-quality capture for accurate medical analysis (0.98 JPEG quality)
-      const dataURL = (await extractZoomedFrame(video, 'dataURL', 0.98)) as string;
+      // Quality gate: reject blurry, glare-washed or badly exposed frames before they reach analysis
+      const qualityFrame = (await extractZoomedFrame(video, 'imageData', { maxDimension: IMAGE_QUALITY_GATE.analysisSize })) as ImageData;
+      const quality = analyzeImageQuality(qualityFrame);
+      const qualityMessage = quality.issues.map((issue) => issue.message).join(' ');
+      if (!quality.passed && IMAGE_QUALITY_GATE.blockOnFailure) {
+        setToastMessage(`Capture blocked: ${qualityMessage}`);
+        return false;
+      }
+
+      // High-quality capture for accurate medical analysis (format set by CAPTURE_PROFILE),
+      // optionally averaged over several frames to reduce sensor noise
+      const dataURL =
+        captureFrameCount > 1 ? await captureAveragedFrame(video, captureFrameCount) : ((await extractZoomedFrame(video, 'dataURL')) as string);
+      // Read before the stream stops, so the settings reflect this exact frame
+      setCaptureCameraSettings(getAppliedSettings());
       setCapturedImageDataUrl(dataURL);
-      setPlacedCrosshairs([]);
-      setToastMessage('');
+      setOriginalImageDataUrl(dataURL);
+      setRectification(null);
+      resetPlacedCrosshairs([]);
+      setToastMessage(quality.passed ? '' : `Low-quality capture: ${qualityMessage}`);
       setAnalysisResult(null);
       setShowResultsModal(false);
+      return true;
     } catch (error) {
       console.error('Capture error:', error);
-      setToastMessage('Failed to capture image. Please try again.');
+      setToastMessage(error instanceof FrameMotionError ? error.message : 'Failed to capture image. Please try again.');
+      return false;
     }
+  }, [getAppliedSettings, captureFrameCount, resetPlacedCrosshairs]);
+
+  const handleImportImage = useCallback(
+    async (file: File) => {
+      try {
+        // Imported photos skip the live quality gate and go straight to crosshair placement
+        const dataURL = await importImageFile(file);
+        setCapturedImageDataUrl(dataURL);
+        setOriginalImageDataUrl(dataURL);
+        setRectification(null);
+        setCaptureCameraSettings(null);
+        resetPlacedCrosshairs([]);
+        setToastMessage('');
+        setAnalysisResult(null);
+        setShowResultsModal(false);
+      } catch (error) {
+        console.error('Import error:', error);
+        setToastMessage(error instanceof Error ? error.message : 'Failed to import image. Please try again.');
+      }
+    },
+    [resetPlacedCrosshairs]
+  );
+
+  const { isDragActive, dropZoneProps } = useImageImport({ enabled: isLiveViewActive, onImport: handleImportImage });
+
+  const handleFrameCountChange = useCallback((frameCount: number) => {
+    setCaptureFrameCount(frameCount);
+    saveToStorage(CAPTURE_FRAME_COUNT_STORAGE_KEY, frameCount);
   }, []);
 
-  const handleImageAreaClick = useCallback(
-    (event: React.MouseEvent<HTMLDivElement>) => {
+  const autoCaptureProgress = useAutoCapture({
+    videoRef,
+    enabled: isLiveViewActive && autoCaptureEnabled,
+    onCapture: handleCaptureImage,
+    liveQuality
+  });
+
+  const handlePlacePoint = useCallback(
+    (x: number, y: number) => {
       if (!capturedImageDataUrl || isLoadingAnalysis) return;
 
+      // Positions off the image (e.g. taps in the letterbox) never place or move a point
+      if (x < 0 || x > 1 || y < 0 || y > 1) return;
+
       // Prevent adding points in post-analysis mode (after closing modal)
       if (isPostAnalysis && !showResultsModal) return;
 
-      const rect = event.currentTarget.getBoundingClientRect();
-      const x = Math.max(0, Math.min(1, (event.clientX - rect.left) / rect.width));
-      const y = Math.max(0, Math.min(1, (event.clientY - rect.top) / rect.height));
+      // A selected detection proposal is moved instead of placing a new point
+      if (selectedProposalId) {
+        setProposedCrosshairs((prev) => prev.map((proposal) => (proposal.id === selectedProposalId ? { ...proposal, x, y } : proposal)));
+        setSelectedProposalId(null);
+        return;
+      }
+
+      // Likewise for a selected placed crosshair, which stays selected for further edits
+      const selected = placedCrosshairs.find((ch) => ch.id === selectedCrosshairId);
+      if (selected) {
+        setPlacedCrosshairs((prev) => prev.map((ch) => (ch.id === selected.id ? { ...ch, x, y } : ch)));
+        setAnnouncement(`Moved point ${selected.pointIndex} to ${describePosition(x, y)}.`);
+        return;
+      }
 
-      // Prevent multiple white reference points
-      if (currentTestType === 'WHITE' && placedCrosshairs.some((ch) => ch.testType === 'WHITE')) {
-        setToastMessage('Only ONE white reference point allowed.');
+      // Prevent multiple reference points
+      if (testTypes.isReference(currentTestType) && placedCrosshairs.some((ch) => testTypes.isReference(ch.testType))) {
+        setToastMessage(referenceLimitMessage);
+        setAnnouncement(`Not placed: ${referenceLimitMessage}`);
         return;
       }
 
-      const pointId = `point-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+      const pointId = createPointId();
       setPlacedCrosshairs((prev) => [
         ...prev,
         {
@@ -122,14 +305,281 @@ export default function CameraAppPage() {
         }
       ]);
       setToastMessage('');
+      setAnnouncement(`Placed point ${placedCrosshairs.length + 1}, ${testTypes.get(currentTestType).name}, at ${describePosition(x, y)}.`);
+    },
+    [
+      capturedImageDataUrl,
+      currentTestType,
+      isLoadingAnalysis,
+      placedCrosshairs,
+      isPostAnalysis,
+      showResultsModal,
+      selectedProposalId,
+      selectedCrosshairId,
+      setPlacedCrosshairs,
+      testTypes,
+      referenceLimitMessage
+    ]
+  );
+
+  // Propose crosshairs from automatic pad detection whenever a new image is captured or imported
+  useEffect(() => {
+    setProposedCrosshairs([]);
+    setSelectedProposalId(null);
+    if (!capturedImageDataUrl) return;
+
+    let cancelled = false;
+    detectCrosshairProposals(capturedImageDataUrl, testTypes)
+      .then((proposals) => {
+        if (!cancelled) setProposedCrosshairs(proposals);
+      })
+      .catch((error) => console.warn('Pad detection failed:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [capturedImageDataUrl, testTypes]);
+
+  /**
+   * Moves proposals into the placed crosshairs, keeping the single reference point rule.
+   * Proposals that would add a second reference point stay in the review list.
+   */
+  const acceptProposals = useCallback(
+    (ids: string[]) => {
+      let hasReference = placedCrosshairs.some((ch) => testTypes.isReference(ch.testType));
+      const accepted: ProposedCrosshair[] = [];
+      proposedCrosshairs
+        .filter((proposal) => ids.includes(proposal.id))
+        .forEach((proposal) => {
+          if (testTypes.isReference(proposal.testType)) {
+            if (hasReference) return;
+            hasReference = true;
+          }
+          accepted.push(proposal);
+        });
+
+      if (accepted.length < ids.length) {
+        setToastMessage(referenceLimitMessage);
+      }
+
+      setPlacedCrosshairs((prev) => [...prev, ...accepted.map((proposal, index) => ({ ...proposal, pointIndex: prev.length + index + 1 }))]);
+      setProposedCrosshairs((prev) => prev.filter((proposal) => !accepted.some((a) => a.id === proposal.id)));
+      setSelectedProposalId(null);
+    },
+    [placedCrosshairs, proposedCrosshairs, setPlacedCrosshairs, testTypes, referenceLimitMessage]
+  );
+
+  const handleProposalSelect = useCallback((id: string | null) => {
+    setSelectedProposalId(id);
+    setSelectedCrosshairId(null);
+  }, []);
+  const handleAcceptProposal = useCallback((id: string) => acceptProposals([id]), [acceptProposals]);
+  const handleAcceptAllProposals = useCallback(
+    () => acceptProposals(proposedCrosshairs.map((p) => p.id)),
+    [acceptProposals, proposedCrosshairs]
+  );
+  const handleRejectProposal = useCallback((id: string) => {
+    setProposedCrosshairs((prev) => prev.filter((proposal) => proposal.id !== id));
+    setSelectedProposalId((selected) => (selected === id ? null : selected));
+  }, []);
+  const handleRejectAllProposals = useCallback(() => {
+    setProposedCrosshairs([]);
+    setSelectedProposalId(null);
+  }, []);
+  const handleProposalTestTypeChange = useCallback((id: string, testType: TestType) => {
+    setProposedCrosshairs((prev) => prev.map((proposal) => (proposal.id === id ? { ...proposal, testType } : proposal)));
+  }, []);
+
+  // Corners are edited on the original image; reuse the last applied ones when re-straightening
+  const handleStartStraighten = useCallback(async () => {
+    if (!originalImageDataUrl) return;
+    setSelectedProposalId(null);
+
+    if (rectification) {
+      setStripCornersDetected(true);
+      setStripCorners(rectification.corners);
+      return;
+    }
+
+    try {
+      const detected = await detectStripCornersInImage(originalImageDataUrl);
+      setStripCornersDetected(detected !== null);
+      setStripCorners(detected ?? DEFAULT_STRIP_CORNERS);
+    } catch (error) {
+      console.warn('Strip corner detection failed:', error);
+      setStripCornersDetected(false);
+      setStripCorners(DEFAULT_STRIP_CORNERS);
+    }
+  }, [originalImageDataUrl, rectification]);
+
+  const handleApplyStraighten = useCallback(async () => {
+    if (!originalImageDataUrl || !stripCorners) return;
+
+    setIsRectifying(true);
+    try {
+      const rectified = await rectifyStripImage(originalImageDataUrl, stripCorners);
+      setCapturedImageDataUrl(rectified.imageDataUrl);
+      setRectification(rectified.rectification);
+      // Points placed on the skewed image no longer line up with the pads
+      resetPlacedCrosshairs([]);
+      setStripCorners(null);
+      setToastMessage('');
+    } catch (error) {
+      console.error('Perspective correction error:', error);
+      setToastMessage(error instanceof Error ? error.message : 'Failed to straighten image. Please try again.');
+    } finally {
+      setIsRectifying(false);
+    }
+  }, [originalImageDataUrl, stripCorners, resetPlacedCrosshairs]);
+
+  const handleUseOriginalImage = useCallback(() => {
+    setCapturedImageDataUrl(originalImageDataUrl);
+    setRectification(null);
+    resetPlacedCrosshairs([]);
+    setStripCorners(null);
+  }, [originalImageDataUrl, resetPlacedCrosshairs]);
+
+  const handleCancelStraighten = useCallback(() => setStripCorners(null), []);
+
+  // Selecting (also the start of every drag) closes the previous drag's undo step
+  const handleCrosshairSelect = useCallback(
+    (id: string) => {
+      endCrosshairEditGroup();
+      setSelectedCrosshairId(id);
+      setSelectedProposalId(null);
     },
-    [capturedImageDataUrl, currentTestType, isLoadingAnalysis, placedCrosshairs, isPostAnalysis, showResultsModal]
+    [endCrosshairEditGroup]
   );
 
-  // Validation: exactly 1 white point + at least 1 analysis point
-  const whitePointCount = useMemo(() => placedCrosshairs.filter((ch) => ch.testType === 'WHITE').length, [placedCrosshairs]);
-  const analysisPointCount = useMemo(() => placedCrosshairs.filter((ch) => ch.testType !== 'WHITE').length, [placedCrosshairs]);
-  const canAnalyze = useMemo(() => whitePointCount === 1 && analysisPointCount > 0, [whitePointCount, analysisPointCount]);
+  const handleCrosshairMove = useCallback(
+    (id: string, x: number, y: number) => {
+      setPlacedCrosshairs((prev) => prev.map((ch) => (ch.id === id ? { ...ch, x, y } : ch)), { group: `move:${id}` });
+    },
+    [setPlacedCrosshairs]
+  );
+
+  const handleCrosshairTestTypeChange = useCallback(
+    (id: string, testType: TestType) => {
+      // Same single reference point rule as placement
+      if (testTypes.isReference(testType) && placedCrosshairs.some((ch) => ch.id !== id && testTypes.isReference(ch.testType))) {
+        setToastMessage(referenceLimitMessage);
+        return;
+      }
+      // Replicate groups are numbered per test type, so the point leaves its group
+      setPlacedCrosshairs((prev) => prev.map((ch) => (ch.id === id ? { ...ch, testType, replicateGroup: undefined } : ch)));
+    },
+    [placedCrosshairs, setPlacedCrosshairs, testTypes, referenceLimitMessage]
+  );
+
+  const handleReplicateGroupChange = useCallback(
+    (id: string, replicateGroup: number | undefined) => {
+      setPlacedCrosshairs((prev) => prev.map((ch) => (ch.id === id ? { ...ch, replicateGroup } : ch)));
+    },
+    [setPlacedCrosshairs]
+  );
+
+  const handleCrosshairRegionChange = useCallback(
+    (id: string, region: SamplingRegion) => {
+      // Slider drags collapse into one undo step
+      setPlacedCrosshairs((prev) => prev.map((ch) => (ch.id === id ? { ...ch, region } : ch)), { group: `region:${id}` });
+    },
+    [setPlacedCrosshairs]
+  );
+
+  const handleDeleteCrosshair = useCallback(
+    (id: string) => {
+      const deleted = placedCrosshairs.find((ch) => ch.id === id);
+      setPlacedCrosshairs((prev) => renumberCrosshairs(prev.filter((ch) => ch.id !== id)));
+      setSelectedCrosshairId(null);
+      if (deleted) {
+        setAnnouncement(`Deleted point ${deleted.pointIndex}. ${placedCrosshairs.length - 1} points remain.`);
+      }
+    },
+    [placedCrosshairs, setPlacedCrosshairs]
+  );
+
+  const handleCrosshairDeselect = useCallback(() => {
+    setSelectedCrosshairId(null);
+    setAnnouncement('Selection cleared.');
+  }, []);
+
+  const handleCycleTestType = useCallback(
+    (direction: 1 | -1) => {
+      const { types } = testTypes;
+      const currentIndex = types.findIndex((testType) => testType.id === currentTestType);
+      const next = types[(currentIndex + direction + types.length) % types.length];
+      setCurrentTestType(next.id);
+      setAnnouncement(`Next point type: ${next.name}.`);
+    },
+    [currentTestType, testTypes]
+  );
+
+  const { templates, saveTemplate, deleteTemplate, importTemplates, exportTemplates } = useStripTemplates();
+  const { calibrations, activeCalibration, nextVersion, saveCalibration, selectCalibration } = useCalibrations();
+  const colourTable = useColourTable();
+
+  const handleKnownConcentrationChange = useCallback(
+    (id: string, knownConcentration: number | undefined) => {
+      // Typing collapses into one undo step
+      setPlacedCrosshairs((prev) => prev.map((ch) => (ch.id === id ? { ...ch, knownConcentration } : ch)), { group: `known:${id}` });
+    },
+    [setPlacedCrosshairs]
+  );
+
+  // Replaces the current placements with the template layout
+  const handleApplyTemplate = useCallback(
+    (template: StripTemplate) => {
+      setPlacedCrosshairs(applyTemplate(template));
+      setSelectedCrosshairId(null);
+      setToastMessage('');
+    },
+    [setPlacedCrosshairs]
+  );
+
+  const handleSaveTemplate = useCallback((name: string) => saveTemplate(name, placedCrosshairs), [saveTemplate, placedCrosshairs]);
+
+  const handleImportTemplates = useCallback(
+    async (file: File) => {
+      try {
+        await importTemplates(file);
+      } catch (error) {
+        console.error('Template import error:', error);
+        setToastMessage(error instanceof Error ? error.message : 'Failed to import templates.');
+      }
+    },
+    [importTemplates]
+  );
+
+  const selectedCrosshair = useMemo(
+    () => placedCrosshairs.find((ch) => ch.id === selectedCrosshairId) ?? null,
+    [placedCrosshairs, selectedCrosshairId]
+  );
+
+  const selectedReplicateGroups = useMemo(
+    () => (selectedCrosshair ? getReplicateGroups(placedCrosshairs, selectedCrosshair.testType) : []),
+    [placedCrosshairs, selectedCrosshair]
+  );
+
+  const replicateSummaries = useMemo(
+    () => (analysisResult ? summarizeReplicates(analysisResult, placedCrosshairs) : []),
+    [analysisResult, placedCrosshairs]
+  );
+
+  const derivedMetrics = useMemo(() => (analysisResult ? computeDerivedMetrics(analysisResult, testTypes) : []), [analysisResult, testTypes]);
+
+  // Validation: exactly 1 reference point + at least 1 analysis point
+  const referencePointCount = useMemo(
+    () => placedCrosshairs.filter((ch) => testTypes.isReference(ch.testType)).length,
+    [placedCrosshairs, testTypes]
+  );
+  const analysisPointCount = placedCrosshairs.length - referencePointCount;
+  // A calibration run also needs the known concentration of every standard
+  const missingKnownCount = useMemo(
+    () =>
+      isCalibrating ? placedCrosshairs.filter((ch) => !testTypes.isReference(ch.testType) && ch.knownConcentration === undefined).length : 0,
+    [isCalibrating, placedCrosshairs, testTypes]
+  );
+  const canAnalyze = referencePointCount === 1 && analysisPointCount > 0 && missingKnownCount === 0;
 
   const handleSendData = useCallback(async () => {
     if (!capturedImageDataUrl) {
@@ -138,42 +588,174 @@ export default function CameraAppPage() {
     }
 
     if (!canAnalyze) {
-      setToastMessage('Exactly one WHITE reference point and at least one analysis point required.');
+      setToastMessage(
+        missingKnownCount > 0
+          ? `Enter the known concentration of ${missingKnownCount} more standard${missingKnownCount === 1 ? '' : 's'}.`
+          : `Exactly one ${testTypes.referenceType.name.toLowerCase()} and at least one analysis point required.`
+      );
       return;
     }
 
     setToastMessage('');
     setIsLoadingAnalysis(true);
+    setAnalysisStatus('Analyzing, please wait...');
     setAnalysisResult(null);
     setShowResultsModal(false);
 
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
     const response = await sendAnalysisData({
       imageDataUrl: capturedImageDataUrl,
-      crosshairs: placedCrosshairs
+      crosshairs: placedCrosshairs,
+      cameraSettings: captureCameraSettings,
+      originalImageDataUrl,
+      rectification,
+      // Standards are measured uncalibrated so the new curves fit the backend's own readings
+      calibration: isCalibrating ? null : activeCalibration,
+      signal: controller.signal,
+      onRetry: ({ attempt, maxAttempts, delayMs, reason }) =>
+        setAnalysisStatus(
+          `${reason === 'network' ? 'Server unreachable' : 'Server error'}, retrying in ${Math.round(delayMs / 1000)} s (attempt ${attempt} of ${maxAttempts})...`
+        )
     });
+    analysisControllerRef.current = null;
+
+    if (response.errorKind === 'cancelled') {
+      setIsLoadingAnalysis(false);
+      setAnnouncement('Analysis cancelled.');
+      return;
+    }
+
+    if (!response.success || !response.results) {
+      // In the field, fall back to a provisional on-device estimate to confirm once the backend is back
+      const unreachable = response.errorKind === 'network' || response.errorKind === 'timeout';
+      if (unreachable && colourTable && !isCalibrating) {
+        try {
+          const estimates = await estimateConcentrationsLocally(capturedImageDataUrl, placedCrosshairs, colourTable, testTypes);
+          setIsLoadingAnalysis(false);
+          setAnalysisResult(estimates);
+          setAnalysisCalibration(null);
+          setShowResultsModal(true);
+          setIsPostAnalysis(true);
+          setToastMessage('Server unreachable: showing provisional on-device estimates.');
+          return;
+        } catch (error) {
+          console.error('On-device estimate error:', error);
+        }
+      }
+      setIsLoadingAnalysis(false);
+      setToastMessage(`${ANALYSIS_ERROR_TITLES[response.errorKind ?? 'client']}: ${response.error || 'Analysis failed.'}`);
+      return;
+    }
 
     setIsLoadingAnalysis(false);
-    if (response.success && response.results) {
-      setAnalysisResult(response.results);
-      setShowResultsModal(true);
-      setIsPostAnalysis(true);
-    } else {
-      setToastMessage(response.error || 'Analysis failed.');
+
+    let calibration = activeCalibration;
+    if (isCalibrating) {
+      try {
+        calibration = buildCalibration(response.results, placedCrosshairs, testTypes, activeCalibration, nextVersion);
+      } catch (error) {
+        console.error('Calibration error:', error);
+        setToastMessage(error instanceof Error ? error.message : 'Calibration failed.');
+        return;
+      }
+      saveCalibration(calibration);
+      setIsCalibrating(false);
+      setAnnouncement(`Saved calibration version ${calibration.version}.`);
     }
-  }, [capturedImageDataUrl, placedCrosshairs, canAnalyze]);
 
-  const handleClearLastPoint = useCallback(() => setPlacedCrosshairs((prev) => prev.slice(0, -1)), []);
-  const handleClearAllPoints = useCallback(() => setPlacedCrosshairs([]), []);
+    setAnalysisResult(applyCalibration(response.results, calibration, testTypes));
+    setAnalysisCalibration(calibration);
+    setShowResultsModal(true);
+    setIsPostAnalysis(true);
+  }, [
+    capturedImageDataUrl,
+    placedCrosshairs,
+    canAnalyze,
+    missingKnownCount,
+    captureCameraSettings,
+    originalImageDataUrl,
+    rectification,
+    testTypes,
+    isCalibrating,
+    activeCalibration,
+    nextVersion,
+    saveCalibration,
+    colourTable
+  ]);
+
+  const handleCancelAnalysis = useCallback(() => {
+    analysisControllerRef.current?.abort();
+  }, []);
+
+  // Leaving the page cancels the request in flight
+  useEffect(() => () => analysisControllerRef.current?.abort(), []);
+
+  const hasProvisionalResults = analysisResult?.some((result) => result.provisional) ?? false;
+
+  // Prompts to confirm provisional estimates as soon as the connection returns
+  useEffect(() => {
+    if (!hasProvisionalResults) return;
+    const handleOnline = () => setAnnouncement('Back online. Confirm the provisional results with the server.');
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [hasProvisionalResults]);
+
+  const handleClearLastPoint = useCallback(() => {
+    setPlacedCrosshairs((prev) => prev.slice(0, -1));
+    setSelectedCrosshairId(null);
+  }, [setPlacedCrosshairs]);
+  const handleClearAllPoints = useCallback(() => {
+    setPlacedCrosshairs([]);
+    setSelectedCrosshairId(null);
+  }, [setPlacedCrosshairs]);
+
+  const canEditCrosshairs = Boolean(capturedImageDataUrl) && !isPostAnalysis && !isLoadingAnalysis && !stripCorners;
+
+  const handleUndo = useCallback(() => {
+    undoCrosshairs();
+    setSelectedCrosshairId(null);
+  }, [undoCrosshairs]);
+
+  const handleRedo = useCallback(() => {
+    redoCrosshairs();
+    setSelectedCrosshairId(null);
+  }, [redoCrosshairs]);
+
+  // Desktop shortcuts: Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo
+  useEffect(() => {
+    if (!canEditCrosshairs) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Leave text fields to their own undo
+      const target = e.target as HTMLElement | null;
+      if (target?.isContentEditable || target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          handleRedo();
+        } else {
+          handleUndo();
+        }
+      } else if (key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [canEditCrosshairs, handleUndo, handleRedo]);
 
   if (showInfoOverlay) {
     return <InfoOverlay onStartAnalysis={() => setShowInfoOverlay(false)} />;
   }
 
   return (
-    <main
-      className={`${M3Colors.surfaceContainer} flex flex-col overflow-hidden`}
-      style={{ height: '100dvh' }}
-    >
+    <main className={`${M3Colors.surfaceContainer} flex flex-col overflow-hidden`} style={{ height: '100dvh' }} {...dropZoneProps}>
       <header className="flex-shrink-0 text-center px-4 py-3 bg-gradient-to-b from-black/10 to-transparent">
         <h1 className={`${TypographyScale.headlineSmall} font-bold ${M3Colors.onSurface} drop-shadow-sm`}>Medical Analysis</h1>
       </header>
@@ -181,20 +763,96 @@ export default function CameraAppPage() {
       <div className="overflow-hidden px-4 py-2" style={{ height: '60vh' }}>
         <CameraDisplay
           videoRef={videoRef}
-          capturedImageDataUrl={capturedImageDataUrl}
+          capturedImageDataUrl={stripCorners ? originalImageDataUrl : capturedImageDataUrl}
           placedCrosshairs={placedCrosshairs}
           analysisResults={isPostAnalysis ? analysisResult : null}
-          onImageAreaClick={handleImageAreaClick}
+          cameraLocked={lockedSettings !== null}
+          liveQuality={liveQuality}
+          autoCaptureProgress={autoCaptureProgress}
+          proposedCrosshairs={isPostAnalysis ? [] : proposedCrosshairs}
+          selectedProposalId={selectedProposalId}
+          stripCorners={stripCorners}
+          onStripCornersChange={setStripCorners}
+          selectedCrosshairId={isPostAnalysis ? null : selectedCrosshairId}
+          onCrosshairSelect={isPostAnalysis || isLoadingAnalysis ? undefined : handleCrosshairSelect}
+          onCrosshairMove={handleCrosshairMove}
+          imageSampler={imageSampler}
+          onCrosshairDelete={isPostAnalysis ? undefined : handleDeleteCrosshair}
+          onCrosshairDeselect={handleCrosshairDeselect}
+          onCycleTestType={isPostAnalysis ? undefined : handleCycleTestType}
+          onAnnounce={setAnnouncement}
+          onPlacePoint={handlePlacePoint}
         />
       </div>
 
-      <div className="flex-shrink-0 px-4 flex flex-col justify-end" style={{ height: '40vh', paddingBottom: 'max(1rem, env(safe-area-inset-bottom) + 0.5rem)' }}>
+      <div
+        className="flex-shrink-0 px-4 flex flex-col justify-end"
+        style={{ height: '40vh', paddingBottom: 'max(1rem, env(safe-area-inset-bottom) + 0.5rem)' }}
+      >
         {!capturedImageDataUrl ? (
-          <TouchButton onClick={handleCaptureImage} disabled={isLoadingAnalysis} variant="primary" size="large" className="w-full">
-            Capture Image
-          </TouchButton>
+          <div className="space-y-3 sm:space-y-4">
+            <CameraControls
+              devices={devices}
+              preferences={preferences}
+              onDeviceChange={selectDevice}
+              onResolutionChange={selectResolution}
+              frameCount={captureFrameCount}
+              onFrameCountChange={handleFrameCountChange}
+              featureSupport={featureSupport}
+              isLocked={lockedSettings !== null}
+              onToggleLock={toggleSettingsLock}
+              torchOn={torchOn}
+              onToggleTorch={toggleTorch}
+              autoCaptureEnabled={autoCaptureEnabled}
+              onToggleAutoCapture={() => setAutoCaptureEnabled((enabled) => !enabled)}
+              disabled={isLoadingAnalysis}
+            />
+            <div className="flex gap-3">
+              <TouchButton onClick={handleCaptureImage} disabled={isLoadingAnalysis} variant="primary" size="large" className="flex-1">
+                Capture Image
+              </TouchButton>
+              <ImportImageButton onImport={handleImportImage} disabled={isLoadingAnalysis} />
+            </div>
+          </div>
+        ) : stripCorners ? (
+          <StraightenPanel
+            cornersDetected={stripCornersDetected}
+            isRectified={rectification !== null}
+            onApply={handleApplyStraighten}
+            onUseOriginal={handleUseOriginalImage}
+            onCancel={handleCancelStraighten}
+            disabled={isRectifying}
+          />
         ) : (
           <div className="space-y-3 sm:space-y-4">
+            {!isPostAnalysis && selectedCrosshair && (
+              <CrosshairEditPanel
+                crosshair={selectedCrosshair}
+                onTestTypeChange={handleCrosshairTestTypeChange}
+                onRegionChange={handleCrosshairRegionChange}
+                onDelete={handleDeleteCrosshair}
+                onDone={() => setSelectedCrosshairId(null)}
+                replicateGroups={selectedReplicateGroups}
+                onReplicateGroupChange={handleReplicateGroupChange}
+                isCalibrating={isCalibrating}
+                onKnownConcentrationChange={handleKnownConcentrationChange}
+                imageSize={imageSize}
+                disabled={isLoadingAnalysis}
+              />
+            )}
+            {!isPostAnalysis && proposedCrosshairs.length > 0 && (
+              <PadProposalsPanel
+                proposals={proposedCrosshairs}
+                selectedProposalId={selectedProposalId}
+                onSelect={handleProposalSelect}
+                onTestTypeChange={handleProposalTestTypeChange}
+                onAccept={handleAcceptProposal}
+                onReject={handleRejectProposal}
+                onAcceptAll={handleAcceptAllProposals}
+                onRejectAll={handleRejectAllProposals}
+                disabled={isLoadingAnalysis}
+              />
+            )}
             {!isPostAnalysis && (
               <AnalysisTopControls
                 currentTestType={currentTestType}
@@ -202,15 +860,50 @@ export default function CameraAppPage() {
                 placedCrosshairsCount={placedCrosshairs.length}
                 onClearLastPoint={handleClearLastPoint}
                 onClearAllPoints={handleClearAllPoints}
+                onStraighten={handleStartStraighten}
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                canUndo={canUndo}
+                canRedo={canRedo}
+                disabled={isLoadingAnalysis}
+              />
+            )}
+            {!isPostAnalysis && (
+              <TemplateControls
+                templates={templates}
+                placedCrosshairsCount={placedCrosshairs.length}
+                onApply={handleApplyTemplate}
+                onSave={handleSaveTemplate}
+                onDelete={deleteTemplate}
+                onImport={handleImportTemplates}
+                onExport={exportTemplates}
+                disabled={isLoadingAnalysis}
+              />
+            )}
+            {!isPostAnalysis && (
+              <CalibrationPanel
+                calibrations={calibrations}
+                activeCalibration={activeCalibration}
+                onSelect={selectCalibration}
+                isCalibrating={isCalibrating}
+                onToggleCalibrating={() => setIsCalibrating((prev) => !prev)}
                 disabled={isLoadingAnalysis}
               />
             )}
             {isPostAnalysis && !showResultsModal && (
               <div className={`p-3 rounded-2xl ${M3Colors.primaryContainer} ${M3Colors.onPrimaryContainer} ${M3Colors.shadowMd} text-center`}>
-                <p className={`${TypographyScale.titleSmall} font-medium`}>Analysis Complete</p>
+                <p className={`${TypographyScale.titleSmall} font-medium`}>
+                  {hasProvisionalResults ? 'Provisional Estimate' : 'Analysis Complete'}
+                </p>
                 <p className={`${TypographyScale.bodySmall} mt-1`}>
                   Choose &quot;Edit Points&quot; to modify crosshairs or &quot;Retake Image&quot; to start over
                 </p>
+                <UnitSystemSelect className="justify-center mt-2" />
+                {hasProvisionalResults && (
+                  <TouchButton onClick={handleSendData} disabled={isLoadingAnalysis} variant="primary" size="small" className="w-full mt-2">
+                    Confirm with Server
+                  </TouchButton>
+                )}
               </div>
             )}
             <ActionButtons
@@ -221,6 +914,7 @@ export default function CameraAppPage() {
               isLoadingAnalysis={isLoadingAnalysis}
               placedCrosshairsCount={placedCrosshairs.length}
               isPostAnalysis={isPostAnalysis && !showResultsModal}
+              isCalibrating={isCalibrating}
             />
           </div>
         )}
@@ -232,11 +926,32 @@ export default function CameraAppPage() {
           role="status"
           aria-live="polite"
         >
-          <p className={`${TypographyScale.titleMedium} animate-pulse`}>Analyzing, please wait...</p>
+          <p className={`${TypographyScale.titleMedium} animate-pulse`}>{analysisStatus}</p>
+          <TouchButton onClick={handleCancelAnalysis} variant="secondary" size="small" className="mt-3">
+            Cancel
+          </TouchButton>
+        </div>
+      )}
+
+      {isDragActive && (
+        <div
+          className={`fixed inset-4 z-50 flex items-center justify-center rounded-3xl border-4 border-dashed border-blue-500 ${M3Colors.primaryContainer} bg-opacity-90 pointer-events-none`}
+        >
+          <p className={`${TypographyScale.titleLarge} ${M3Colors.onPrimaryContainer}`}>Drop image to import</p>
         </div>
       )}
-      
-      {showResultsModal && analysisResult && <ResultsModal results={analysisResult} onClose={() => setShowResultsModal(false)} />}
+      {showResultsModal && analysisResult && (
+        <ResultsModal
+          results={analysisResult}
+          calibration={analysisCalibration}
+          replicateSummaries={replicateSummaries}
+          derivedMetrics={derivedMetrics}
+          onClose={() => setShowResultsModal(false)}
+        />
+      )}
+      <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+        {announcement}
+      </div>
       {toastMessage && <Toast message={toastMessage} type="error" onClose={() => setToastMessage('')} />}
     </main>
   );
@@ -10,10 +10,23 @@ interface ActionButtonsProps {
   isLoadingAnalysis: boolean;
   placedCrosshairsCount: number;
   isPostAnalysis?: boolean;
+  isCalibrating?: boolean; // Analysis fits a calibration from the placed standards
 }
 
 const ActionButtons: React.FC<ActionButtonsProps> = React.memo(
-  ({ onRetakeImage, onSendDataToServer, onEditPoints, canAnalyze, isLoadingAnalysis, placedCrosshairsCount, isPostAnalysis = false }) => {
+  ({
+    onRetakeImage,
+    onSendDataToServer,
+    onEditPoints,
+    canAnalyze,
+    isLoadingAnalysis,
+    placedCrosshairsCount,
+    isPostAnalysis = false,
+    isCalibrating = false
+  }) => {
+    const actionLabel = isCalibrating ? 'Calibrate' : 'Analyze';
+    const countLabel = isCalibrating ? 'Standards' : 'Points';
+
     if (isPostAnalysis) {
       // Post-analysis mode: Show Retake Image and Edit Points
       return (
@@ -41,7 +54,7 @@ const ActionButtons: React.FC<ActionButtonsProps> = React.memo(
           Retake Image
         </TouchButton>
         <TouchButton onClick={onSendDataToServer} disabled={!canAnalyze || isLoadingAnalysis} variant="primary" size="large" className="flex-1">
-          {isLoadingAnalysis ? 'Analyzing...' : `Analyze ${placedCrosshairsCount > 0 ? `(${placedCrosshairsCount} Points)` : ''}`}
+          {isLoadingAnalysis ? 'Analyzing...' : `${actionLabel} ${placedCrosshairsCount > 0 ? `(${placedCrosshairsCount} ${countLabel})` : ''}`}
         </TouchButton>
       </div>
     );
@@ -1,7 +1,9 @@
 'use client';
 import TouchButton from '@/components/TouchButton';
-import { M3Colors, TestTypeColorValues, TouchTargets, TypographyScale } from '@/constants/themeConstants';
+import { M3Colors, TouchTargets, TypographyScale } from '@/constants/themeConstants';
+import { useTestTypes } from '@/contexts/TestTypeContext';
 import { TestType } from '@/types';
+import { getTestTypeBadgeStyle } from '@/utils/testTypeRegistry';
 import React from 'react';
 
 interface AnalysisTopControlsProps {
@@ -10,11 +12,30 @@ interface AnalysisTopControlsProps {
   placedCrosshairsCount: number;
   onClearLastPoint: () => void;
   onClearAllPoints: () => void;
+  onStraighten: () => void; // Opens the strip corner editor for perspective correction
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
   disabled: boolean;
 }
 
 const AnalysisTopControls: React.FC<AnalysisTopControlsProps> = React.memo(
-  ({ currentTestType, onTestTypeChange, placedCrosshairsCount, onClearLastPoint, onClearAllPoints, disabled }) => {
+  ({
+    currentTestType,
+    onTestTypeChange,
+    placedCrosshairsCount,
+    onClearLastPoint,
+    onClearAllPoints,
+    onStraighten,
+    onUndo,
+    onRedo,
+    canUndo,
+    canRedo,
+    disabled
+  }) => {
+    const testTypes = useTestTypes();
+
     return (
       <>
         <div className="mb-3 sm:mb-4 flex items-center gap-3">
@@ -24,22 +45,47 @@ const AnalysisTopControls: React.FC<AnalysisTopControlsProps> = React.memo(
           <select
             id="test-type-select"
             value={currentTestType}
-            onChange={(e) => onTestTypeChange(e.target.value as TestType)}
+            onChange={(e) => onTestTypeChange(e.target.value)}
             disabled={disabled}
-            className={`flex-1 ${TestTypeColorValues[currentTestType].bg} ${TestTypeColorValues[currentTestType].text} border ${M3Colors.outline} rounded-xl sm:rounded-2xl ${M3Colors.shadowMd} focus:outline-none focus:ring-2 focus:ring-blue-500 ${TypographyScale.bodyMedium} sm:${TypographyScale.bodyLarge} disabled:opacity-70 disabled:cursor-not-allowed`}
+            className={`flex-1 border ${M3Colors.outline} rounded-xl sm:rounded-2xl ${M3Colors.shadowMd} focus:outline-none focus:ring-2 focus:ring-blue-500 ${TypographyScale.bodyMedium} sm:${TypographyScale.bodyLarge} disabled:opacity-70 disabled:cursor-not-allowed`}
             style={{
+              ...getTestTypeBadgeStyle(testTypes.get(currentTestType)),
               minHeight: TouchTargets.comfortable,
               padding: '12px 16px'
             }}
           >
-            <option value="WHITE">White Reference Point</option>
-            <option value="ALB">ALB</option>
-            <option value="ALP">ALP</option>
-            <option value="CREATININE">Creatinine</option>
+            {testTypes.types.map((testType) => (
+              <option key={testType.id} value={testType.id}>
+                {testType.name}
+              </option>
+            ))}
           </select>
+          <TouchButton onClick={onStraighten} disabled={disabled} variant="secondary" size="medium">
+            Straighten
+          </TouchButton>
         </div>
 
-        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 sm:gap-4">
+          <TouchButton
+            onClick={onUndo}
+            disabled={disabled || !canUndo}
+            variant="secondary"
+            size="medium"
+            className="w-full"
+            aria-keyshortcuts="Control+Z"
+          >
+            Undo
+          </TouchButton>
+          <TouchButton
+            onClick={onRedo}
+            disabled={disabled || !canRedo}
+            variant="secondary"
+            size="medium"
+            className="w-full"
+            aria-keyshortcuts="Control+Shift+Z Control+Y"
+          >
+            Redo
+          </TouchButton>
           <TouchButton
             onClick={onClearLastPoint}
             disabled={disabled || placedCrosshairsCount === 0}
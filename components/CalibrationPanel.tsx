@@ -0,0 +1,86 @@
+'use client';
+import TouchButton from '@/components/TouchButton';
+import { M3Colors, TouchTargets, TypographyScale } from '@/constants/themeConstants';
+import { useTestTypes } from '@/contexts/TestTypeContext';
+import { Calibration } from '@/types';
+import { describeCalibration } from '@/utils/calibration';
+import React from 'react';
+
+interface CalibrationPanelProps {
+  calibrations: Calibration[];
+  activeCalibration: Calibration | null;
+  onSelect: (id: string | null) => void;
+  isCalibrating: boolean; // Placed points are standards with known concentrations
+  onToggleCalibrating: () => void;
+  disabled: boolean;
+}
+
+/**
+ * Collapsible controls for choosing the calibration in use and running a new one
+ */
+const CalibrationPanel: React.FC<CalibrationPanelProps> = React.memo(
+  ({ calibrations, activeCalibration, onSelect, isCalibrating, onToggleCalibrating, disabled }) => {
+    const testTypes = useTestTypes();
+
+    return (
+      <details
+        className={`p-3 rounded-2xl ${M3Colors.surface} border ${M3Colors.outline} ${M3Colors.shadowMd}`}
+        open={isCalibrating || undefined}
+      >
+        <summary className={`${TypographyScale.titleSmall} ${M3Colors.onSurface} cursor-pointer`}>
+          Calibration ({isCalibrating ? 'run in progress' : activeCalibration ? describeCalibration(activeCalibration) : 'none'})
+        </summary>
+
+        <div className="mt-3 space-y-3">
+          <select
+            value={activeCalibration?.id ?? ''}
+            onChange={(e) => onSelect(e.target.value || null)}
+            disabled={disabled || isCalibrating}
+            aria-label="Calibration applied to results"
+            className={`w-full border ${M3Colors.outline} rounded-xl ${TypographyScale.bodyMedium} px-2`}
+            style={{ minHeight: TouchTargets.minimum }}
+          >
+            <option value="">No calibration</option>
+            {[...calibrations].reverse().map((calibration) => (
+              <option key={calibration.id} value={calibration.id}>
+                {describeCalibration(calibration)}
+              </option>
+            ))}
+          </select>
+
+          {activeCalibration && !isCalibrating && (
+            <ul className={`${TypographyScale.bodySmall} ${M3Colors.onSurfaceVariant} space-y-1`}>
+              {activeCalibration.curves.map((curve) => (
+                <li key={curve.testType}>
+                  {testTypes.get(curve.testType).name}: ×{curve.slope.toFixed(3)} {curve.intercept >= 0 ? '+' : '−'}{' '}
+                  {Math.abs(curve.intercept).toFixed(3)} ({curve.standards.length} standard{curve.standards.length === 1 ? '' : 's'}
+                  {curve.rSquared !== null ? `, R² ${curve.rSquared.toFixed(3)}` : ''})
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {isCalibrating && (
+            <p className={`${TypographyScale.bodySmall} ${M3Colors.onSurfaceVariant}`}>
+              Place a point on each standard, select it and enter its known concentration, then press Calibrate.
+            </p>
+          )}
+
+          <TouchButton
+            onClick={onToggleCalibrating}
+            disabled={disabled}
+            variant={isCalibrating ? 'secondary' : 'tertiary'}
+            size="small"
+            className="w-full"
+          >
+            {isCalibrating ? 'Cancel Calibration Run' : 'Start Calibration Run'}
+          </TouchButton>
+        </div>
+      </details>
+    );
+  }
+);
+
+CalibrationPanel.displayName = 'CalibrationPanel';
+
+export default CalibrationPanel;
@@ -0,0 +1,168 @@
+'use client';
+import TouchButton from '@/components/TouchButton';
+import { CAMERA_RESOLUTIONS, MULTI_FRAME_CAPTURE } from '@/constants/appConstants';
+import { M3Colors, TouchTargets, TypographyScale } from '@/constants/themeConstants';
+import { CameraDevice, CameraFeatureSupport, CameraPreferences, CameraResolution } from '@/types';
+import React from 'react';
+
+interface CameraControlsProps {
+  devices: CameraDevice[];
+  preferences: CameraPreferences;
+  onDeviceChange: (deviceId: string | null) => void;
+  onResolutionChange: (resolution: CameraResolution) => void;
+  frameCount: number;
+  onFrameCountChange: (frameCount: number) => void;
+  featureSupport: CameraFeatureSupport;
+  isLocked: boolean;
+  onToggleLock: () => void;
+  torchOn: boolean;
+  onToggleTorch: () => void;
+  autoCaptureEnabled: boolean;
+  onToggleAutoCapture: () => void;
+  disabled: boolean;
+}
+
+const selectClassName = `flex-1 min-w-0 ${M3Colors.surface} ${M3Colors.onSurface} border ${M3Colors.outline} rounded-xl sm:rounded-2xl ${M3Colors.shadowMd} focus:outline-none focus:ring-2 focus:ring-blue-500 ${TypographyScale.bodyMedium} disabled:opacity-70 disabled:cursor-not-allowed`;
+
+/**
+ * Camera and resolution picker shown below the live camera view
+ *
+ * The device list only carries real labels once camera permission has been
+ * granted; until then the browser's default rear camera is used. The lock
+ * and torch buttons only appear when the active camera supports them.
+ */
+const CameraControls: React.FC<CameraControlsProps> = React.memo(
+  ({
+    devices,
+    preferences,
+    onDeviceChange,
+    onResolutionChange,
+    frameCount,
+    onFrameCountChange,
+    featureSupport,
+    isLocked,
+    onToggleLock,
+    torchOn,
+    onToggleTorch,
+    autoCaptureEnabled,
+    onToggleAutoCapture,
+    disabled
+  }) => {
+    return (
+      <div className="space-y-3">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="flex flex-1 items-center gap-3 min-w-0">
+            <label htmlFor="camera-device-select" className={`${TypographyScale.bodyMedium} ${M3Colors.onSurfaceVariant} whitespace-nowrap`}>
+              Camera:
+            </label>
+            <select
+              id="camera-device-select"
+              value={preferences.deviceId ?? ''}
+              onChange={(e) => onDeviceChange(e.target.value || null)}
+              disabled={disabled}
+              className={selectClassName}
+              style={{ minHeight: TouchTargets.minimum, padding: '8px 12px' }}
+            >
+              <option value="">Default (rear camera)</option>
+              {devices
+                .filter((device) => device.deviceId)
+                .map((device) => (
+                  <option key={device.deviceId} value={device.deviceId}>
+                    {device.label}
+                  </option>
+                ))}
+            </select>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <label
+              htmlFor="camera-resolution-select"
+              className={`${TypographyScale.bodyMedium} ${M3Colors.onSurfaceVariant} whitespace-nowrap`}
+            >
+              Resolution:
+            </label>
+            <select
+              id="camera-resolution-select"
+              value={preferences.resolution}
+              onChange={(e) => onResolutionChange(e.target.value as CameraResolution)}
+              disabled={disabled}
+              className={selectClassName}
+              style={{ minHeight: TouchTargets.minimum, padding: '8px 12px' }}
+            >
+              {(Object.keys(CAMERA_RESOLUTIONS) as CameraResolution[]).map((resolution) => (
+                <option key={resolution} value={resolution}>
+                  {CAMERA_RESOLUTIONS[resolution].label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <label htmlFor="capture-frames-select" className={`${TypographyScale.bodyMedium} ${M3Colors.onSurfaceVariant} whitespace-nowrap`}>
+              Frames:
+            </label>
+            <select
+              id="capture-frames-select"
+              value={frameCount}
+              onChange={(e) => onFrameCountChange(Number(e.target.value))}
+              disabled={disabled}
+              className={selectClassName}
+              style={{ minHeight: TouchTargets.minimum, padding: '8px 12px' }}
+              aria-describedby="capture-frames-hint"
+            >
+              {MULTI_FRAME_CAPTURE.frameCounts.map((count) => (
+                <option key={count} value={count}>
+                  {count === 1 ? 'Single' : `Average ${count}`}
+                </option>
+              ))}
+            </select>
+            <span id="capture-frames-hint" className="sr-only">
+              Averaging several frames reduces sensor noise; the device must be held still
+            </span>
+          </div>
+        </div>
+
+        <div className="flex gap-3">
+          <TouchButton
+            onClick={onToggleAutoCapture}
+            disabled={disabled}
+            variant="tertiary"
+            size="small"
+            aria-pressed={autoCaptureEnabled}
+            className={`flex-1 ${autoCaptureEnabled ? '!bg-teal-600 !text-white' : ''}`}
+          >
+            {autoCaptureEnabled ? 'Auto-capture On' : 'Auto-capture Off'}
+          </TouchButton>
+          {featureSupport.lock && (
+            <TouchButton
+              onClick={onToggleLock}
+              disabled={disabled}
+              variant="tertiary"
+              size="small"
+              aria-pressed={isLocked}
+              className={`flex-1 ${isLocked ? '!bg-teal-600 !text-white' : ''}`}
+            >
+              {isLocked ? 'Unlock Exposure' : 'Lock Exposure'}
+            </TouchButton>
+          )}
+          {featureSupport.torch && (
+            <TouchButton
+              onClick={onToggleTorch}
+              disabled={disabled}
+              variant="tertiary"
+              size="small"
+              aria-pressed={torchOn}
+              className={`flex-1 ${torchOn ? '!bg-amber-500 !text-white' : ''}`}
+            >
+              {torchOn ? 'Torch Off' : 'Torch On'}
+            </TouchButton>
+          )}
+        </div>
+      </div>
+    );
+  }
+);
+
+CameraControls.displayName = 'CameraControls';
+
+export default CameraControls;
@@ -1,11 +1,30 @@
 'use client';
 
 import Image from 'next/image';
-import React, { RefObject } from 'react';
+import React, { RefObject, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
-import { CROSSHAIR_SIZE, CROSSHAIR_SVG_PATH } from '@/constants/appConstants';
-import { M3Colors, TestTypeColorValues, TypographyScale } from '@/constants/themeConstants';
-import { ConcentrationResponse, PlacedCrosshair } from '@/types';
+import ColorLoupe from '@/components/ColorLoupe';
+import CornerEditor from '@/components/CornerEditor';
+import { CAPTURE_ASPECT_RATIO, CROSSHAIR_SIZE, CROSSHAIR_SVG_PATH, KEYBOARD_PLACEMENT } from '@/constants/appConstants';
+import { M3Colors, TypographyScale } from '@/constants/themeConstants';
+import { useTestTypes } from '@/contexts/TestTypeContext';
+import { useUnitSystem } from '@/contexts/UnitSystemContext';
+import { ImageSampler } from '@/hooks/useImageSampler';
+import { useImageSize } from '@/hooks/useImageSize';
+import { useZoomPan } from '@/hooks/useZoomPan';
+import {
+  ConcentrationResponse,
+  ImageQualityIssueCode,
+  ImageQualityReport,
+  ImageSize,
+  NormalizedPoint,
+  PlacedCrosshair,
+  ProposedCrosshair
+} from '@/types';
+import { describePosition, getSamplingRegion } from '@/utils/crosshairUtils';
+import { clientToImagePoint, getAspectRatio, toImagePixels } from '@/utils/imageOverlay';
+import { getTestTypeBadgeStyle } from '@/utils/testTypeRegistry';
+import { convertConcentration, formatCompactValue, getDisplayUnit } from '@/utils/unitConversion';
 
 /**
  * Camera display component for biomedical test strip analysis.
@@ -21,7 +40,7 @@ import { ConcentrationResponse, PlacedCrosshair } from '@/types';
  *   capturedImageDataUrl={imageUrl}
  *   placedCrosshairs={crosshairs}
  *   analysisResults={results}
- *   onImageAreaClick={handleClick}
+ *   onPlacePoint={handlePlacePoint}
  * />
  * ```
  */
@@ -34,8 +53,38 @@ interface CameraDisplayProps {
   placedCrosshairs: PlacedCrosshair[];
   /** Optional analysis results to display on crosshairs */
   analysisResults?: ConcentrationResponse[] | null;
-  /** Handler for clicks on the image area to place new crosshairs */
-  onImageAreaClick: (event: React.MouseEvent<HTMLDivElement>) => void;
+  /** Whether exposure, white balance and focus are locked on the live feed */
+  cameraLocked?: boolean;
+  /** Latest live frame quality check, shown as a pass/fail indicator */
+  liveQuality?: ImageQualityReport | null;
+  /** Auto-capture dwell progress (0 to 1), drawn as a ring around the guide; null when auto-capture is off */
+  autoCaptureProgress?: number | null;
+  /** Crosshairs suggested by pad detection, drawn as dashed markers until accepted */
+  proposedCrosshairs?: ProposedCrosshair[];
+  /** Proposal currently selected for moving */
+  selectedProposalId?: string | null;
+  /** Strip corners being edited for perspective correction; crosshairs are hidden while set */
+  stripCorners?: NormalizedPoint[] | null;
+  /** Called when a strip corner is dragged */
+  onStripCornersChange?: (corners: NormalizedPoint[]) => void;
+  /** Placed crosshair currently selected for editing */
+  selectedCrosshairId?: string | null;
+  /** Called when a placed crosshair is tapped or starts being dragged; omit to make crosshairs read-only */
+  onCrosshairSelect?: (id: string) => void;
+  /** Called with the new normalized position while a placed crosshair is dragged */
+  onCrosshairMove?: (id: string, x: number, y: number) => void;
+  /** Decoded captured image for the magnifier loupe and its colour readout */
+  imageSampler?: ImageSampler | null;
+  /** Called when Delete is pressed on the image with a crosshair selected; omit to disable keyboard deletion */
+  onCrosshairDelete?: (id: string) => void;
+  /** Called when Escape is pressed on the image */
+  onCrosshairDeselect?: () => void;
+  /** Called when T (forwards) or Shift+T (backwards) is pressed to change the test type of the next point */
+  onCycleTestType?: (direction: 1 | -1) => void;
+  /** Receives messages describing keyboard placement for a screen reader live region */
+  onAnnounce?: (message: string) => void;
+  /** Called with normalized (0-1) image coordinates when the user taps to place a crosshair, independent of zoom */
+  onPlacePoint: (x: number, y: number) => void;
 }
 
 /**
@@ -48,6 +97,8 @@ const RESULT_COLOR_MAP = {
   default: { bg: 'bg-gray-100', text: 'text-gray-600', border: 'border-gray-300' }
 } as const;
 
+const clamp = (value: number): number => Math.min(1, Math.max(0, value));
+
 /**
  * Gets styling classes for crosshair labels based on analysis results
  */
@@ -60,9 +111,14 @@ const getResultColors = (pointIndex: number, results?: ConcentrationResponse[] |
  * Formats concentration value for display
  * @param pointIndex - Index of the analysis point
  * @param results - Array of analysis results
+ * @param convert - Converts the reported value to the display unit
  * @returns Formatted concentration string or empty if no result
  */
-const getConcentrationDisplay = (pointIndex: number, results?: ConcentrationResponse[] | null): string => {
+const getConcentrationDisplay = (
+  pointIndex: number,
+  results: ConcentrationResponse[] | null | undefined,
+  convert: (value: number) => number
+): string => {
   const result = results?.find((r) => r.pointIndex === pointIndex);
   if (!result) {
     return '';
@@ -70,7 +126,18 @@ const getConcentrationDisplay = (pointIndex: number, results?: ConcentrationResp
   if (result.concentration === -1 || result.remarks === 'none') {
     return '-';
   }
-  return Math.round(result.concentration).toString();
+  // Provisional on-device estimates read as approximate
+  return `${result.provisional ? '≈' : ''}${formatCompactValue(convert(result.concentration))}`;
+};
+
+/**
+ * Short labels for failed live quality checks
+ */
+const QUALITY_ISSUE_LABELS: Record<ImageQualityIssueCode, string> = {
+  blur: 'Blurry',
+  glare: 'Glare',
+  underexposed: 'Too dark',
+  overexposed: 'Too bright'
 };
 
 /**
@@ -80,7 +147,8 @@ const HUE_ROTATION_MAP = {
   high: 0, // Red tint
   low: 45, // Yellow tint
   normal: 120, // Green tint
-  none: 200 // Gray tint
+  none: 200, // Gray tint
+  unclassified: 200 // Gray tint: measured, but no reference range to judge it by
 } as const;
 
 /**
@@ -91,59 +159,114 @@ const getHueRotation = (pointIndex: number, results?: ConcentrationResponse[] |
   return HUE_ROTATION_MAP[result?.remarks as keyof typeof HUE_ROTATION_MAP] || 0;
 };
 
-
 const CameraDisplay: React.FC<CameraDisplayProps> = React.memo(
-  ({ videoRef, capturedImageDataUrl, placedCrosshairs, analysisResults, onImageAreaClick }) => {
-    const hasResults = Boolean(analysisResults?.length);
+  ({
+    videoRef,
+    capturedImageDataUrl,
+    placedCrosshairs,
+    analysisResults,
+    cameraLocked = false,
+    liveQuality = null,
+    autoCaptureProgress = null,
+    proposedCrosshairs = [],
+    selectedProposalId = null,
+    stripCorners = null,
+    onStripCornersChange,
+    selectedCrosshairId = null,
+    onCrosshairSelect,
+    onCrosshairMove,
+    imageSampler = null,
+    onCrosshairDelete,
+    onCrosshairDeselect,
+    onCycleTestType,
+    onAnnounce,
+    onPlacePoint
+  }) => {
+    const imageSize = useImageSize(capturedImageDataUrl);
+    // The box takes the captured image's own shape, so nothing is cropped away
+    const aspectRatio = getAspectRatio(capturedImageDataUrl ? imageSize : null, CAPTURE_ASPECT_RATIO);
 
     return (
       <div className="relative h-full w-full flex items-center justify-center p-0 m-0">
         <div
           className={`${M3Colors.surfaceContainer} overflow-hidden relative rounded-2xl sm:rounded-3xl border ${M3Colors.outline} ${M3Colors.shadowMd} landscape-camera`}
-          style={{ 
-            touchAction: 'manipulation', 
-            aspectRatio: '4/3', 
-            width: 'min(90vw, 60vh)',
+          style={{
+            touchAction: 'manipulation',
+            aspectRatio: `${aspectRatio}`,
+            width: `min(90vw, ${(45 * aspectRatio).toFixed(2)}vh)`, // At most 45vh tall
             height: 'auto',
             maxHeight: '100%'
           }}
         >
           {!capturedImageDataUrl ? (
-            <LiveCameraView videoRef={videoRef} />
+            <LiveCameraView
+              videoRef={videoRef}
+              cameraLocked={cameraLocked}
+              liveQuality={liveQuality}
+              autoCaptureProgress={autoCaptureProgress}
+            />
+          ) : !imageSize ? null : stripCorners && onStripCornersChange ? (
+            <ImageFrame size={imageSize}>
+              <Image
+                src={capturedImageDataUrl}
+                width={imageSize.width}
+                height={imageSize.height}
+                className="w-full h-full"
+                alt="Captured Test Strip"
+              />
+              <CornerEditor corners={stripCorners} onChange={onStripCornersChange} />
+            </ImageFrame>
           ) : (
-            <CapturedImageView imageDataUrl={capturedImageDataUrl} onImageAreaClick={onImageAreaClick} />
+            <CapturedImageView
+              imageDataUrl={capturedImageDataUrl}
+              imageSize={imageSize}
+              placedCrosshairs={placedCrosshairs}
+              analysisResults={analysisResults}
+              proposedCrosshairs={proposedCrosshairs}
+              selectedProposalId={selectedProposalId}
+              selectedCrosshairId={selectedCrosshairId}
+              onCrosshairSelect={onCrosshairSelect}
+              onCrosshairMove={onCrosshairMove}
+              imageSampler={imageSampler}
+              onCrosshairDelete={onCrosshairDelete}
+              onCrosshairDeselect={onCrosshairDeselect}
+              onCycleTestType={onCycleTestType}
+              onAnnounce={onAnnounce}
+              onPlacePoint={onPlacePoint}
+            />
           )}
         </div>
-
-        {/* Crosshairs rendered outside container, positioned relative to camera feed */}
-        {capturedImageDataUrl &&
-          placedCrosshairs.map((crosshair) => (
-            <div
-              key={crosshair.id}
-              className="absolute flex flex-col items-center justify-center"
-              style={{
-                height: `${CROSSHAIR_SIZE * 0.75}%`,
-                width: `${CROSSHAIR_SIZE * 0.75}%`,
-                left: `calc(50% + (${crosshair.x} - 0.5) * min(90vw, 60vh))`,
-                top: `calc(50% + (${crosshair.y} - 0.5) * min(90vw, 60vh) * 3/4)`,
-                transform: 'translate(-50%, -50%)',
-                pointerEvents: 'none',
-                zIndex: 50
-              }}
-              aria-hidden="true"
-            >
-              <CrosshairContent crosshair={crosshair} analysisResults={analysisResults} hasResults={hasResults} />
-            </div>
-          ))}
       </div>
     );
   }
 );
 
+/**
+ * Box with the image's exact aspect ratio, fitted and centred inside its parent
+ *
+ * Anything positioned in it by percentage lines up with the image's own pixels,
+ * even when the surrounding box does not share the image's shape.
+ */
+const ImageFrame: React.FC<{ size: ImageSize; children: React.ReactNode }> = ({ size, children }) => (
+  <div className="absolute inset-0 flex items-center justify-center" style={{ containerType: 'size' }}>
+    <div
+      className="relative"
+      style={{ width: `min(100cqw, ${(size.width / size.height) * 100}cqh)`, aspectRatio: `${size.width} / ${size.height}` }}
+    >
+      {children}
+    </div>
+  </div>
+);
+
 /**
  * Live camera view component
  */
-const LiveCameraView: React.FC<{ videoRef: RefObject<HTMLVideoElement | null> }> = ({ videoRef }) => (
+const LiveCameraView: React.FC<{
+  videoRef: RefObject<HTMLVideoElement | null>;
+  cameraLocked: boolean;
+  liveQuality: ImageQualityReport | null;
+  autoCaptureProgress: number | null;
+}> = ({ videoRef, cameraLocked, liveQuality, autoCaptureProgress }) => (
   <>
     <video ref={videoRef} playsInline muted className="w-full h-full object-cover" aria-label="Camera feed" />
     <Image
@@ -159,48 +282,489 @@ const LiveCameraView: React.FC<{ videoRef: RefObject<HTMLVideoElement | null> }>
         zIndex: 20
       }}
     />
+    {cameraLocked && (
+      <span
+        className={`absolute top-2 left-2 px-2 py-1 rounded-full bg-teal-600 text-white ${TypographyScale.labelSmall} ${M3Colors.shadowMd}`}
+        style={{ zIndex: 21 }}
+      >
+        AE/AWB/AF locked
+      </span>
+    )}
+    {autoCaptureProgress !== null && <AutoCaptureRing progress={autoCaptureProgress} />}
+    {liveQuality && <QualityIndicator report={liveQuality} />}
   </>
 );
 
+const RING_RADIUS = 45;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+/**
+ * Countdown ring drawn around the aiming guide while auto-capture waits for a steady frame
+ */
+const AutoCaptureRing: React.FC<{ progress: number }> = ({ progress }) => (
+  <svg
+    viewBox="0 0 100 100"
+    className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 -rotate-90 pointer-events-none"
+    style={{ width: `${CROSSHAIR_SIZE * 1.4}%`, aspectRatio: '1', zIndex: 21 }}
+    role="progressbar"
+    aria-label="Auto-capture countdown"
+    aria-valuemin={0}
+    aria-valuemax={100}
+    aria-valuenow={Math.round(progress * 100)}
+  >
+    <circle cx="50" cy="50" r={RING_RADIUS} fill="none" stroke="rgba(255,255,255,0.35)" strokeWidth="6" />
+    <circle
+      cx="50"
+      cy="50"
+      r={RING_RADIUS}
+      fill="none"
+      stroke="#0d9488"
+      strokeWidth="6"
+      strokeLinecap="round"
+      strokeDasharray={RING_CIRCUMFERENCE}
+      strokeDashoffset={RING_CIRCUMFERENCE * (1 - progress)}
+    />
+  </svg>
+);
+
 /**
- * Captured image view component with click handling
+ * Pass/fail badge for the live pre-capture quality check
+ */
+const QualityIndicator: React.FC<{ report: ImageQualityReport }> = ({ report }) => {
+  const label = report.passed ? 'Quality OK' : report.issues.map((issue) => QUALITY_ISSUE_LABELS[issue.code]).join(' · ');
+
+  return (
+    <span
+      className={`absolute top-2 right-2 px-2 py-1 rounded-full ${report.passed ? 'bg-green-600' : M3Colors.error} text-white ${TypographyScale.labelSmall} ${M3Colors.shadowMd}`}
+      style={{ zIndex: 21 }}
+      role="status"
+      aria-live="polite"
+    >
+      {label}
+    </span>
+  );
+};
+
+/**
+ * Captured image view with pinch/double-tap/wheel zoom and pan
+ *
+ * Markers live in the transformed layer so they stay on their pads while
+ * zoomed, counter-scaled to keep a constant on-screen size.
  */
 const CapturedImageView: React.FC<{
   imageDataUrl: string;
-  onImageAreaClick: (event: React.MouseEvent<HTMLDivElement>) => void;
-}> = ({ imageDataUrl, onImageAreaClick }) => {
+  imageSize: ImageSize;
+  placedCrosshairs: PlacedCrosshair[];
+  analysisResults?: ConcentrationResponse[] | null;
+  proposedCrosshairs: ProposedCrosshair[];
+  selectedProposalId: string | null;
+  selectedCrosshairId: string | null;
+  onCrosshairSelect?: (id: string) => void;
+  onCrosshairMove?: (id: string, x: number, y: number) => void;
+  imageSampler: ImageSampler | null;
+  onCrosshairDelete?: (id: string) => void;
+  onCrosshairDeselect?: () => void;
+  onCycleTestType?: (direction: 1 | -1) => void;
+  onAnnounce?: (message: string) => void;
+  onPlacePoint: (x: number, y: number) => void;
+}> = ({
+  imageDataUrl,
+  imageSize,
+  placedCrosshairs,
+  analysisResults,
+  proposedCrosshairs,
+  selectedProposalId,
+  selectedCrosshairId,
+  onCrosshairSelect,
+  onCrosshairMove,
+  imageSampler,
+  onCrosshairDelete,
+  onCrosshairDeselect,
+  onCycleTestType,
+  onAnnounce,
+  onPlacePoint
+}) => {
+  const testTypes = useTestTypes();
+  const overlayRef = useRef<SVGSVGElement>(null);
+  // Pointer positions are read through the overlay, the same element the markers are drawn in
+  const mapPoint = useCallback(
+    (clientX: number, clientY: number) => (overlayRef.current ? clientToImagePoint(overlayRef.current, clientX, clientY) : null),
+    []
+  );
+  const { containerRef, view, toNormalized, resetView, zoomHandlers } = useZoomPan({ onTap: ({ x, y }) => onPlacePoint(x, y), mapPoint });
+  // Dragged points stop at the image edge rather than leaving it
+  const toClampedImagePoint = (clientX: number, clientY: number) =>
+    overlayRef.current ? clientToImagePoint(overlayRef.current, clientX, clientY, { clampToImage: true }) : null;
+  const hasResults = Boolean(analysisResults?.length);
+  const crosshairsEditable = Boolean(onCrosshairSelect && onCrosshairMove);
+  const draggingId = useRef<string | null>(null);
+  const markerTransform = `translate(-50%, -50%) scale(${1 / view.scale})`;
+  const [loupePoint, setLoupePoint] = useState<NormalizedPoint | null>(null);
+  const activeTouches = useRef(new Set<number>());
+  // Keyboard placement cursor, shown while the image has focus
+  const [cursor, setCursor] = useState<NormalizedPoint | null>(null);
+  // New points get the default region; a selected point is moved by the next tap, so preview its own
+  const loupeRegion = getSamplingRegion(placedCrosshairs.find((ch) => ch.id === selectedCrosshairId));
+  const loupeColor = useMemo(
+    () => (imageSampler && loupePoint ? imageSampler.sample(loupePoint.x, loupePoint.y, loupeRegion) : null),
+    [imageSampler, loupePoint, loupeRegion]
+  );
+
+  // The loupe follows a hovering mouse or a single pressed finger, and hides while pinching
+  const updateLoupe = (e: React.PointerEvent<HTMLDivElement>) => {
+    setLoupePoint(activeTouches.current.size > 1 ? null : toNormalized(e.clientX, e.clientY));
+  };
+
+  const hideLoupeAfterTouch = (e: React.PointerEvent<HTMLDivElement>) => {
+    activeTouches.current.delete(e.pointerId);
+    if (e.pointerType !== 'mouse') setLoupePoint(null);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    zoomHandlers.onPointerDown(e);
+    if (e.pointerType !== 'mouse') activeTouches.current.add(e.pointerId);
+    updateLoupe(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    zoomHandlers.onPointerMove(e);
+    updateLoupe(e);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    zoomHandlers.onPointerUp(e);
+    hideLoupeAfterTouch(e);
+  };
+
+  // A new image starts unzoomed
+  useEffect(() => {
+    resetView();
+  }, [imageDataUrl, resetView]);
+
+  const moveCursor = (point: NormalizedPoint) => {
+    setCursor(point);
+    setLoupePoint(point);
+  };
+
+  const getVisibleCentre = (element: HTMLElement): NormalizedPoint => {
+    const rect = element.getBoundingClientRect();
+    return toNormalized(rect.left + rect.width / 2, rect.top + rect.height / 2) ?? { x: 0.5, y: 0.5 };
+  };
+
+  // Keyboard placement starts from the centre of the visible area; focus from a tap or click shows no cursor
+  const handleFocus = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget || !e.currentTarget.matches(':focus-visible')) return;
+    const start = getVisibleCentre(e.currentTarget);
+    moveCursor(start);
+    onAnnounce?.(`Placement cursor at ${describePosition(start.x, start.y)}. Use arrow keys to move, Enter to place.`);
+  };
+
+  const handleBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget) return;
+    setCursor(null);
+    setLoupePoint(null);
+  };
+
+  const selectAdjacentCrosshair = (direction: 1 | -1) => {
+    if (!onCrosshairSelect || placedCrosshairs.length === 0) return;
+    const ordered = [...placedCrosshairs].sort((a, b) => a.pointIndex - b.pointIndex);
+    const currentIndex = ordered.findIndex((ch) => ch.id === selectedCrosshairId);
+    const next =
+      currentIndex === -1
+        ? ordered[direction === 1 ? 0 : ordered.length - 1]
+        : ordered[(currentIndex + direction + ordered.length) % ordered.length];
+    onCrosshairSelect(next.id);
+    moveCursor({ x: next.x, y: next.y });
+    onAnnounce?.(
+      `Point ${next.pointIndex} of ${ordered.length}, ${testTypes.get(next.testType).name}, at ${describePosition(next.x, next.y)}.`
+    );
+  };
+
+  /**
+   * Keyboard placement: arrows move the cursor (Shift for larger, Alt for finer steps),
+   * Enter/Space places or moves a point there, T/Shift+T cycles the test type,
+   * N/P select the next/previous point, Delete removes it and Escape clears the selection
+   */
   const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
-    if (e.key === 'Enter' || e.key === ' ') {
+    if (e.target !== e.currentTarget || e.ctrlKey || e.metaKey) return;
+    const step = e.shiftKey ? KEYBOARD_PLACEMENT.coarseStep : e.altKey ? KEYBOARD_PLACEMENT.fineStep : KEYBOARD_PLACEMENT.step;
+    const delta = { ArrowLeft: [-step, 0], ArrowRight: [step, 0], ArrowUp: [0, -step], ArrowDown: [0, step] }[e.key];
+
+    if (delta) {
       e.preventDefault();
-      const rect = e.currentTarget.getBoundingClientRect();
-      const centerX = rect.left + rect.width / 2;
-      const centerY = rect.top + rect.height / 2;
+      const from = cursor ?? getVisibleCentre(e.currentTarget);
+      const next = { x: clamp(from.x + delta[0]), y: clamp(from.y + delta[1]) };
+      moveCursor(next);
+      onAnnounce?.(describePosition(next.x, next.y));
+      return;
+    }
 
-      const syntheticEvent = {
-        currentTarget: e.currentTarget,
-        clientX: centerX,
-        clientY: centerY
-      } as React.MouseEvent<HTMLDivElement>;
+    switch (e.key) {
+      case 'Enter':
+      case ' ': {
+        e.preventDefault();
+        const target = cursor ?? getVisibleCentre(e.currentTarget);
+        onPlacePoint(target.x, target.y);
+        break;
+      }
+      case 't':
+      case 'T':
+        e.preventDefault();
+        onCycleTestType?.(e.shiftKey ? -1 : 1);
+        break;
+      case 'n':
+      case 'N':
+      case 'p':
+      case 'P':
+        e.preventDefault();
+        selectAdjacentCrosshair(e.key.toLowerCase() === 'n' ? 1 : -1);
+        break;
+      case 'Delete':
+      case 'Backspace':
+        if (!onCrosshairDelete || !selectedCrosshairId || !placedCrosshairs.some((ch) => ch.id === selectedCrosshairId)) break;
+        e.preventDefault();
+        onCrosshairDelete(selectedCrosshairId);
+        break;
+      case 'Escape':
+        if (!selectedCrosshairId) break;
+        e.preventDefault();
+        onCrosshairDeselect?.();
+        break;
+    }
+  };
 
-      onImageAreaClick(syntheticEvent);
+  // Crosshair gestures stop propagation so they do not also pan or place points
+  const handleCrosshairPointerDown = (id: string) => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    draggingId.current = id;
+    onCrosshairSelect?.(id);
+    updateLoupe(e);
+  };
+
+  const handleCrosshairPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    updateLoupe(e);
+    if (!draggingId.current) return;
+    const point = toClampedImagePoint(e.clientX, e.clientY);
+    if (point) onCrosshairMove?.(draggingId.current, point.x, point.y);
+  };
+
+  const handleCrosshairPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    hideLoupeAfterTouch(e);
+    if (!draggingId.current) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    draggingId.current = null;
+  };
+
+  const handleCrosshairKeyDown = (id: string) => (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      e.stopPropagation();
+      onCrosshairSelect?.(id);
     }
   };
 
   return (
     <div
-      className="w-full h-full relative cursor-crosshair"
-      style={{ touchAction: 'manipulation' }}
-      onClick={onImageAreaClick}
+      ref={containerRef}
+      className="w-full h-full relative overflow-hidden cursor-crosshair"
+      style={{ touchAction: 'none' }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={() => setLoupePoint(cursor)}
       onKeyDown={handleKeyDown}
-      role="button"
+      onFocus={handleFocus}
+      onBlur={handleBlur}
+      role="application"
       tabIndex={0}
-      aria-label="Captured image area, click or press Enter/Space to place analysis point at center"
+      aria-roledescription="image placement area"
+      aria-label="Captured image area, tap to place an analysis point, pinch or double-tap to zoom"
+      aria-describedby="captured-image-keyboard-help"
     >
-      <Image src={imageDataUrl} width={100} height={100} className="w-full h-full object-cover" alt="Captured Test Strip" />
+      <p id="captured-image-keyboard-help" className="sr-only">
+        Arrow keys move the placement cursor, hold Shift for larger steps or Alt for finer steps. Enter or Space places a point at the cursor,
+        or moves the selected point there. T and Shift+T change the test type. N and P select the next and previous point. Delete removes the
+        selected point and Escape clears the selection.
+      </p>
+
+      <div
+        className="absolute inset-0"
+        style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`, transformOrigin: '0 0' }}
+      >
+        <ImageFrame size={imageSize}>
+          {/* Image and sampling regions in the image's intrinsic pixel coordinates */}
+          <svg
+            ref={overlayRef}
+            viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+            className="absolute inset-0 w-full h-full"
+            role="img"
+            aria-label="Captured Test Strip"
+          >
+            <image href={imageDataUrl} width={imageSize.width} height={imageSize.height} preserveAspectRatio="none" />
+            {placedCrosshairs.map((crosshair) => (
+              <SamplingRegionOutline
+                key={`${crosshair.id}-region`}
+                crosshair={crosshair}
+                imageSize={imageSize}
+                selected={crosshair.id === selectedCrosshairId}
+              />
+            ))}
+          </svg>
+
+          {/* Detection proposals */}
+          {proposedCrosshairs.map((proposal, index) => (
+            <div
+              key={proposal.id}
+              className={`absolute flex items-center justify-center rounded-full border-2 border-dashed ${
+                proposal.id === selectedProposalId ? 'border-blue-500 bg-blue-500/20' : 'border-white bg-black/10'
+              }`}
+              style={{
+                height: `${CROSSHAIR_SIZE * 0.6}%`,
+                aspectRatio: '1',
+                left: `${proposal.x * 100}%`,
+                top: `${proposal.y * 100}%`,
+                transform: markerTransform,
+                pointerEvents: 'none',
+                zIndex: 49
+              }}
+              aria-hidden="true"
+            >
+              <span
+                className="rounded-full font-bold"
+                style={{ ...getTestTypeBadgeStyle(testTypes.get(proposal.testType)), fontSize: '10px', lineHeight: '1', padding: '2px 4px' }}
+              >
+                {index + 1}
+              </span>
+            </div>
+          ))}
+
+          {/* Placed crosshairs, sized like the live aiming guide */}
+          {placedCrosshairs.map((crosshair) => (
+            <div
+              key={crosshair.id}
+              className={`absolute flex flex-col items-center justify-center ${
+                crosshair.id === selectedCrosshairId ? 'rounded-full ring-2 ring-blue-500 bg-blue-500/10' : ''
+              } ${crosshairsEditable ? 'cursor-move focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500' : ''}`}
+              style={{
+                height: `${CROSSHAIR_SIZE}%`,
+                aspectRatio: '1',
+                left: `${crosshair.x * 100}%`,
+                top: `${crosshair.y * 100}%`,
+                transform: markerTransform,
+                pointerEvents: crosshairsEditable ? 'auto' : 'none',
+                touchAction: 'none',
+                zIndex: 50
+              }}
+              {...(crosshairsEditable
+                ? {
+                    role: 'button',
+                    tabIndex: 0,
+                    'aria-label': `Point ${crosshair.pointIndex} (${testTypes.get(crosshair.testType).name}), press Enter to select, drag to move`,
+                    'aria-pressed': crosshair.id === selectedCrosshairId,
+                    onPointerDown: handleCrosshairPointerDown(crosshair.id),
+                    onPointerMove: handleCrosshairPointerMove,
+                    onPointerUp: handleCrosshairPointerUp,
+                    onPointerCancel: handleCrosshairPointerUp,
+                    onKeyDown: handleCrosshairKeyDown(crosshair.id)
+                  }
+                : { 'aria-hidden': true })}
+            >
+              <CrosshairContent crosshair={crosshair} analysisResults={analysisResults} hasResults={hasResults} />
+            </div>
+          ))}
+
+          {/* Keyboard placement cursor */}
+          {cursor && (
+            <svg
+              viewBox="0 0 24 24"
+              className="absolute text-blue-500"
+              style={{
+                width: 32,
+                height: 32,
+                left: `${cursor.x * 100}%`,
+                top: `${cursor.y * 100}%`,
+                transform: markerTransform,
+                pointerEvents: 'none',
+                filter: 'drop-shadow(0 0 1px #fff)',
+                zIndex: 51
+              }}
+              aria-hidden="true"
+            >
+              <path d="M12 2v7M12 15v7M2 12h7M15 12h7" stroke="currentColor" strokeWidth="2" strokeLinecap="round" fill="none" />
+              <circle cx="12" cy="12" r="3" stroke="currentColor" strokeWidth="1.5" fill="none" />
+            </svg>
+          )}
+        </ImageFrame>
+      </div>
+
+      {imageSampler && loupePoint && <ColorLoupe sampler={imageSampler} point={loupePoint} region={loupeRegion} color={loupeColor} />}
+
+      {view.scale > 1 && (
+        <button
+          type="button"
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={resetView}
+          className={`absolute bottom-2 right-2 px-2 py-1 rounded-full bg-black/60 text-white ${TypographyScale.labelSmall} focus:outline-none focus:ring-2 focus:ring-blue-500`}
+          style={{ zIndex: 60 }}
+          aria-label="Reset zoom"
+        >
+          {view.scale.toFixed(1)}× · Reset
+        </button>
+      )}
     </div>
   );
 };
 
+/**
+ * Outline of a crosshair's sampling region, in the overlay's intrinsic pixel coordinates
+ *
+ * Strokes keep a constant on-screen width at any display size or zoom.
+ */
+const SamplingRegionOutline: React.FC<{ crosshair: PlacedCrosshair; imageSize: ImageSize; selected: boolean }> = ({
+  crosshair,
+  imageSize,
+  selected
+}) => {
+  const region = getSamplingRegion(crosshair);
+  const centre = toImagePixels(crosshair, imageSize);
+  const strokes = [
+    { stroke: 'rgba(0,0,0,0.35)', strokeWidth: 4 },
+    { stroke: selected ? '#3b82f6' : '#fff', strokeWidth: 2, strokeDasharray: '4 3' }
+  ];
+
+  return (
+    <g fill="none" pointerEvents="none" aria-hidden="true">
+      {strokes.map((strokeProps) =>
+        region.shape === 'circle' ? (
+          <circle
+            key={strokeProps.strokeWidth}
+            cx={centre.x}
+            cy={centre.y}
+            r={region.radius * imageSize.height}
+            vectorEffect="non-scaling-stroke"
+            {...strokeProps}
+          />
+        ) : (
+          <rect
+            key={strokeProps.strokeWidth}
+            x={centre.x - (region.width * imageSize.width) / 2}
+            y={centre.y - (region.height * imageSize.height) / 2}
+            width={region.width * imageSize.width}
+            height={region.height * imageSize.height}
+            vectorEffect="non-scaling-stroke"
+            {...strokeProps}
+          />
+        )
+      )}
+    </g>
+  );
+};
+
 /**
  * Crosshair content without positioning wrapper
  */
@@ -209,8 +773,12 @@ const CrosshairContent: React.FC<{
   analysisResults?: ConcentrationResponse[] | null;
   hasResults: boolean;
 }> = ({ crosshair, analysisResults, hasResults }) => {
+  const testType = useTestTypes().get(crosshair.testType);
+  const { unitSystem } = useUnitSystem();
   const resultColors = getResultColors(crosshair.pointIndex, analysisResults);
-  const concentrationValue = getConcentrationDisplay(crosshair.pointIndex, analysisResults);
+  const concentrationValue = getConcentrationDisplay(crosshair.pointIndex, analysisResults, (value) =>
+    convertConcentration(value, testType, unitSystem)
+  );
 
   return (
     <>
@@ -220,6 +788,7 @@ const CrosshairContent: React.FC<{
         width={100}
         src={CROSSHAIR_SVG_PATH}
         alt="crosshair"
+        draggable={false}
         className="opacity-70"
         style={{
           objectFit: 'contain',
@@ -232,8 +801,9 @@ const CrosshairContent: React.FC<{
 
       {/* Point index label - always at top */}
       <span
-        className={`absolute ${TypographyScale.labelSmall} font-bold ${TestTypeColorValues[crosshair.testType].text} ${TestTypeColorValues[crosshair.testType].bg} rounded-full shadow-sm border border-gray-300`}
+        className={`absolute ${TypographyScale.labelSmall} font-bold rounded-full shadow-sm border border-gray-300`}
         style={{
+          ...getTestTypeBadgeStyle(testType),
           top: '50%',
           left: '50%',
           transform: 'translate(-50%, -170%)',
@@ -252,7 +822,9 @@ const CrosshairContent: React.FC<{
       </span>
 
       {/* Concentration results - only shown after analysis */}
-      {hasResults && concentrationValue && <ConcentrationLabel value={concentrationValue} colors={resultColors} />}
+      {hasResults && concentrationValue && (
+        <ConcentrationLabel value={concentrationValue} unit={getDisplayUnit(testType, unitSystem)?.unit ?? null} colors={resultColors} />
+      )}
     </>
   );
 };
@@ -262,8 +834,9 @@ const CrosshairContent: React.FC<{
  */
 const ConcentrationLabel: React.FC<{
   value: string;
+  unit: string | null;
   colors: { bg: string; text: string; border: string };
-}> = ({ value, colors }) => (
+}> = ({ value, unit, colors }) => (
   <div
     className="absolute flex flex-col items-center"
     style={{
@@ -285,7 +858,7 @@ const ConcentrationLabel: React.FC<{
     >
       {value}
     </span>
-    {value !== 'N/A' && value !== '-' && (
+    {unit && value !== 'N/A' && value !== '-' && (
       <span
         className="text-gray-600 font-medium mt-1 bg-white/80 rounded-full text-center whitespace-nowrap"
         style={{
@@ -294,7 +867,7 @@ const ConcentrationLabel: React.FC<{
           lineHeight: '1'
         }}
       >
-        mg/dL
+        {unit}
       </span>
     )}
   </div>
@@ -302,7 +875,11 @@ const ConcentrationLabel: React.FC<{
 
 CameraDisplay.displayName = 'CameraDisplay';
 LiveCameraView.displayName = 'LiveCameraView';
+QualityIndicator.displayName = 'QualityIndicator';
+AutoCaptureRing.displayName = 'AutoCaptureRing';
 CapturedImageView.displayName = 'CapturedImageView';
+ImageFrame.displayName = 'ImageFrame';
+SamplingRegionOutline.displayName = 'SamplingRegionOutline';
 CrosshairContent.displayName = 'CrosshairContent';
 ConcentrationLabel.displayName = 'ConcentrationLabel';
 
@@ -0,0 +1,100 @@
+'use client';
+import { LOUPE } from '@/constants/appConstants';
+import { TypographyScale } from '@/constants/themeConstants';
+import { ImageSampler } from '@/hooks/useImageSampler';
+import { NormalizedPoint, SampledColor, SamplingRegion } from '@/types';
+import { formatSampledColor, getRegionHalfSizePx } from '@/utils/colorUtils';
+import React, { useEffect, useRef } from 'react';
+
+interface ColorLoupeProps {
+  sampler: ImageSampler;
+  point: NormalizedPoint;
+  region: SamplingRegion;
+  color: SampledColor | null;
+}
+
+/**
+ * Magnified view of the image under the pointer with the sampling region and its colour readout
+ *
+ * Placed in the top corner away from the pointer so the finger never covers it.
+ */
+const ColorLoupe: React.FC<ColorLoupeProps> = React.memo(({ sampler, point, region, color }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const size = LOUPE.sizePx;
+  const { halfWidth, halfHeight } = getRegionHalfSizePx(region, sampler.canvas.width, sampler.canvas.height);
+  const sourceSize = Math.max(halfWidth, halfHeight) * 2 * LOUPE.viewRadiusMultiple;
+  // Region outline in the 0-100 overlay coordinates
+  const outlineWidth = (halfWidth / sourceSize) * 200;
+  const outlineHeight = (halfHeight / sourceSize) * 200;
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    ctx.imageSmoothingEnabled = false;
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, size, size);
+    ctx.drawImage(
+      sampler.canvas,
+      point.x * sampler.canvas.width - sourceSize / 2,
+      point.y * sampler.canvas.height - sourceSize / 2,
+      sourceSize,
+      sourceSize,
+      0,
+      0,
+      size,
+      size
+    );
+  }, [sampler, point, size, sourceSize]);
+
+  const readout = color ? formatSampledColor(color) : null;
+
+  return (
+    <div
+      className="absolute top-2 flex flex-col items-center gap-1 pointer-events-none"
+      style={point.x < 0.5 ? { right: 8, zIndex: 55 } : { left: 8, zIndex: 55 }}
+      aria-hidden="true"
+    >
+      <div className="relative rounded-full overflow-hidden border-2 border-white shadow-lg" style={{ width: size, height: size }}>
+        <canvas ref={canvasRef} width={size} height={size} className="block" />
+        <svg viewBox="0 0 100 100" className="absolute inset-0 w-full h-full">
+          {[
+            { stroke: '#fff', strokeWidth: 1.5 },
+            { stroke: '#000', strokeWidth: 0.75, strokeDasharray: '3 3' }
+          ].map((strokeProps) =>
+            region.shape === 'circle' ? (
+              <circle key={strokeProps.stroke} cx="50" cy="50" r={outlineWidth / 2} fill="none" {...strokeProps} />
+            ) : (
+              <rect
+                key={strokeProps.stroke}
+                x={50 - outlineWidth / 2}
+                y={50 - outlineHeight / 2}
+                width={outlineWidth}
+                height={outlineHeight}
+                fill="none"
+                {...strokeProps}
+              />
+            )
+          )}
+        </svg>
+      </div>
+      {readout && color && (
+        <div className={`flex items-center gap-2 px-2 py-1 rounded-xl bg-black/70 text-white ${TypographyScale.labelSmall}`}>
+          <span
+            className="inline-block rounded-full border border-white"
+            style={{ width: 14, height: 14, background: `rgb(${color.mean.r}, ${color.mean.g}, ${color.mean.b})` }}
+          />
+          <span className="flex flex-col leading-tight" style={{ fontSize: '10px' }}>
+            <span>{readout.rgb}</span>
+            <span>{readout.lab}</span>
+            <span>{readout.stdDev}</span>
+          </span>
+        </div>
+      )}
+    </div>
+  );
+});
+
+ColorLoupe.displayName = 'ColorLoupe';
+
+export default ColorLoupe;
@@ -0,0 +1,99 @@
+'use client';
+import { NormalizedPoint } from '@/types';
+import React, { useRef } from 'react';
+
+interface CornerEditorProps {
+  corners: NormalizedPoint[]; // Top-left, top-right, bottom-right, bottom-left, relative to the image
+  onChange: (corners: NormalizedPoint[]) => void;
+}
+
+const CORNER_LABELS = ['top-left', 'top-right', 'bottom-right', 'bottom-left'];
+
+// Keyboard nudge per arrow key press, relative to the image
+const KEYBOARD_STEP = 0.005;
+
+const clamp = (value: number): number => Math.min(1, Math.max(0, value));
+
+/**
+ * Draggable quadrilateral for marking the strip outline before deskewing
+ *
+ * Covers the captured image; handles follow pointer drags (mouse or touch)
+ * and can be nudged with the arrow keys once focused.
+ */
+const CornerEditor: React.FC<CornerEditorProps> = React.memo(({ corners, onChange }) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const draggingIndex = useRef<number | null>(null);
+
+  const moveCorner = (index: number, point: NormalizedPoint) => {
+    onChange(corners.map((corner, i) => (i === index ? { x: clamp(point.x), y: clamp(point.y) } : corner)));
+  };
+
+  const handlePointerDown = (index: number) => (e: React.PointerEvent<HTMLButtonElement>) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    draggingIndex.current = index;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLButtonElement>) => {
+    const rect = overlayRef.current?.getBoundingClientRect();
+    if (draggingIndex.current === null || !rect) return;
+    moveCorner(draggingIndex.current, { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLButtonElement>) => {
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    draggingIndex.current = null;
+  };
+
+  const handleKeyDown = (index: number) => (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    const offsets: Record<string, [number, number]> = {
+      ArrowLeft: [-KEYBOARD_STEP, 0],
+      ArrowRight: [KEYBOARD_STEP, 0],
+      ArrowUp: [0, -KEYBOARD_STEP],
+      ArrowDown: [0, KEYBOARD_STEP]
+    };
+    const offset = offsets[e.key];
+    if (!offset) return;
+    e.preventDefault();
+    moveCorner(index, { x: corners[index].x + offset[0], y: corners[index].y + offset[1] });
+  };
+
+  return (
+    <div ref={overlayRef} className="absolute inset-0" style={{ zIndex: 30, touchAction: 'none' }}>
+      <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none" aria-hidden="true">
+        <polygon
+          points={corners.map(({ x, y }) => `${x * 100},${y * 100}`).join(' ')}
+          fill="rgba(13,148,136,0.15)"
+          stroke="#0d9488"
+          strokeWidth="2"
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      {corners.map((corner, index) => (
+        <button
+          key={CORNER_LABELS[index]}
+          type="button"
+          className="absolute rounded-full border-2 border-white bg-teal-600 shadow-md focus:outline-none focus:ring-2 focus:ring-blue-500 cursor-move"
+          style={{
+            width: 28,
+            height: 28,
+            left: `${corner.x * 100}%`,
+            top: `${corner.y * 100}%`,
+            transform: 'translate(-50%, -50%)',
+            touchAction: 'none'
+          }}
+          onPointerDown={handlePointerDown(index)}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onKeyDown={handleKeyDown(index)}
+          aria-label={`Strip ${CORNER_LABELS[index]} corner, use arrow keys to move`}
+        />
+      ))}
+    </div>
+  );
+});
+
+CornerEditor.displayName = 'CornerEditor';
+
+export default CornerEditor;
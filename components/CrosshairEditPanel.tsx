@@ -0,0 +1,299 @@
+'use client';
+import TouchButton from '@/components/TouchButton';
+import { CAPTURE_ASPECT_RATIO, SAMPLING_REGION_LIMITS } from '@/constants/appConstants';
+import { M3Colors, TouchTargets, TypographyScale } from '@/constants/themeConstants';
+import { useTestTypes } from '@/contexts/TestTypeContext';
+import { useUnitSystem } from '@/contexts/UnitSystemContext';
+import { ImageSize, PlacedCrosshair, SamplingRegion, TestType } from '@/types';
+import { formatSampledColor } from '@/utils/colorUtils';
+import { getSamplingRegion } from '@/utils/crosshairUtils';
+import { getAspectRatio } from '@/utils/imageOverlay';
+import { getTestTypeBadgeStyle } from '@/utils/testTypeRegistry';
+import { getDisplayUnit } from '@/utils/unitConversion';
+import React, { useState } from 'react';
+
+interface CrosshairEditPanelProps {
+  crosshair: PlacedCrosshair;
+  onTestTypeChange: (id: string, testType: TestType) => void;
+  onRegionChange: (id: string, region: SamplingRegion) => void;
+  onDelete: (id: string) => void;
+  onDone: () => void;
+  replicateGroups?: number[]; // Groups already used by points of this test type
+  onReplicateGroupChange?: (id: string, group: number | undefined) => void;
+  isCalibrating?: boolean; // Shows the known concentration of the standard under the point
+  onKnownConcentrationChange?: (id: string, value: number | undefined) => void;
+  imageSize: ImageSize | null; // Captured image the region is sized against
+  disabled: boolean;
+}
+
+/**
+ * Context panel for the selected crosshair
+ *
+ * The point itself is moved by dragging it, or by tapping the image while it is selected.
+ */
+const CrosshairEditPanel: React.FC<CrosshairEditPanelProps> = React.memo(
+  ({
+    crosshair,
+    onTestTypeChange,
+    onRegionChange,
+    onDelete,
+    onDone,
+    replicateGroups = [],
+    onReplicateGroupChange,
+    isCalibrating = false,
+    onKnownConcentrationChange,
+    imageSize,
+    disabled
+  }) => {
+    const testTypes = useTestTypes();
+
+    return (
+      <section
+        className={`p-3 rounded-2xl ${M3Colors.surface} border ${M3Colors.outline} ${M3Colors.shadowMd}`}
+        aria-labelledby="crosshair-edit-title"
+      >
+        <div className="flex items-center gap-3 mb-2">
+          <span
+            className={`rounded-full font-bold flex items-center justify-center ${TypographyScale.labelMedium}`}
+            style={{
+              ...getTestTypeBadgeStyle(testTypes.get(crosshair.testType)),
+              minWidth: TouchTargets.minimum,
+              minHeight: TouchTargets.minimum
+            }}
+          >
+            {crosshair.pointIndex}
+          </span>
+          <h2 id="crosshair-edit-title" className={`${TypographyScale.titleSmall} ${M3Colors.onSurface}`}>
+            Point {crosshair.pointIndex}
+          </h2>
+        </div>
+
+        {crosshair.sampledColor && <SampledColorSummary crosshair={crosshair} />}
+
+        <p className={`${TypographyScale.bodySmall} ${M3Colors.onSurfaceVariant} mb-2`}>Drag the point or tap the image to move it.</p>
+
+        <div className="flex gap-2">
+          <select
+            value={crosshair.testType}
+            onChange={(e) => onTestTypeChange(crosshair.id, e.target.value)}
+            disabled={disabled}
+            aria-label={`Test type for point ${crosshair.pointIndex}`}
+            className={`flex-1 min-w-0 border ${M3Colors.outline} rounded-xl ${TypographyScale.bodyMedium} px-2`}
+            style={{ minHeight: TouchTargets.minimum }}
+          >
+            {testTypes.types.map((testType) => (
+              <option key={testType.id} value={testType.id}>
+                {testType.name}
+              </option>
+            ))}
+          </select>
+          <TouchButton
+            onClick={() => onDelete(crosshair.id)}
+            disabled={disabled}
+            variant="tertiary"
+            size="small"
+            className="!bg-red-600 !text-white"
+          >
+            Delete
+          </TouchButton>
+          <TouchButton onClick={onDone} disabled={disabled} variant="secondary" size="small">
+            Done
+          </TouchButton>
+        </div>
+
+        {onReplicateGroupChange && !testTypes.isReference(crosshair.testType) && (
+          <ReplicateGroupSelect
+            crosshair={crosshair}
+            groups={replicateGroups}
+            onChange={(group) => onReplicateGroupChange(crosshair.id, group)}
+            disabled={disabled}
+          />
+        )}
+
+        {isCalibrating && onKnownConcentrationChange && !testTypes.isReference(crosshair.testType) && (
+          <KnownConcentrationInput
+            key={`${crosshair.id}-${crosshair.testType}`}
+            crosshair={crosshair}
+            onChange={(value) => onKnownConcentrationChange(crosshair.id, value)}
+            disabled={disabled}
+          />
+        )}
+
+        <RegionEditor
+          crosshair={crosshair}
+          aspectRatio={getAspectRatio(imageSize, CAPTURE_ASPECT_RATIO)}
+          onChange={(region) => onRegionChange(crosshair.id, region)}
+          disabled={disabled}
+        />
+      </section>
+    );
+  }
+);
+
+/**
+ * Shape and size of the area the backend samples around the point
+ */
+const RegionEditor: React.FC<{
+  crosshair: PlacedCrosshair;
+  aspectRatio: number; // Image width over height
+  onChange: (region: SamplingRegion) => void;
+  disabled: boolean;
+}> = ({ crosshair, aspectRatio, onChange, disabled }) => {
+  const region = getSamplingRegion(crosshair);
+
+  // Keeps roughly the same on-image extent when switching shape
+  const handleShapeChange = (shape: SamplingRegion['shape']) => {
+    if (shape === region.shape) return;
+    onChange(
+      region.shape === 'circle'
+        ? { shape: 'rect', width: (region.radius * 2) / aspectRatio, height: region.radius * 2 }
+        : { shape: 'circle', radius: region.height / 2 }
+    );
+  };
+
+  const sizeInputs: { label: string; value: number; update: (value: number) => SamplingRegion }[] =
+    region.shape === 'circle'
+      ? [{ label: 'Radius', value: region.radius, update: (radius) => ({ ...region, radius }) }]
+      : [
+          { label: 'Width', value: region.width, update: (width) => ({ ...region, width }) },
+          { label: 'Height', value: region.height, update: (height) => ({ ...region, height }) }
+        ];
+
+  return (
+    <fieldset className="mt-3 space-y-2" disabled={disabled}>
+      <legend className={`${TypographyScale.labelMedium} ${M3Colors.onSurfaceVariant} mb-1`}>Sampling region</legend>
+      <select
+        value={region.shape}
+        onChange={(e) => handleShapeChange(e.target.value as SamplingRegion['shape'])}
+        aria-label={`Sampling region shape for point ${crosshair.pointIndex}`}
+        className={`w-full border ${M3Colors.outline} rounded-xl ${TypographyScale.bodyMedium} px-2`}
+        style={{ minHeight: TouchTargets.minimum }}
+      >
+        <option value="circle">Circle</option>
+        <option value="rect">Rectangle</option>
+      </select>
+      {sizeInputs.map(({ label, value, update }) => (
+        <label key={label} className={`flex items-center gap-2 ${TypographyScale.bodySmall} ${M3Colors.onSurfaceVariant}`}>
+          <span className="w-14">{label}</span>
+          <input
+            type="range"
+            min={SAMPLING_REGION_LIMITS.min}
+            max={SAMPLING_REGION_LIMITS.max}
+            step={SAMPLING_REGION_LIMITS.step}
+            value={value}
+            onChange={(e) => onChange(update(Number(e.target.value)))}
+            className="flex-1"
+            style={{ minHeight: TouchTargets.minimum }}
+          />
+          <span className="w-12 text-right">{(value * 100).toFixed(1)}%</span>
+        </label>
+      ))}
+    </fieldset>
+  );
+};
+
+/**
+ * Replicate group of the point: none, one already used by its test type, or a new one
+ */
+const ReplicateGroupSelect: React.FC<{
+  crosshair: PlacedCrosshair;
+  groups: number[];
+  onChange: (group: number | undefined) => void;
+  disabled: boolean;
+}> = ({ crosshair, groups, onChange, disabled }) => {
+  const newGroup = Math.max(0, ...groups) + 1;
+
+  return (
+    <label className={`mt-3 flex items-center gap-2 ${TypographyScale.bodySmall} ${M3Colors.onSurfaceVariant}`}>
+      <span className="whitespace-nowrap">Replicate of</span>
+      <select
+        value={crosshair.replicateGroup ?? ''}
+        onChange={(e) => onChange(e.target.value ? Number(e.target.value) : undefined)}
+        disabled={disabled}
+        className={`flex-1 min-w-0 border ${M3Colors.outline} rounded-xl ${TypographyScale.bodyMedium} px-2`}
+        style={{ minHeight: TouchTargets.minimum }}
+      >
+        <option value="">None (single reading)</option>
+        {groups.map((group) => (
+          <option key={group} value={group}>
+            Pad group {group}
+          </option>
+        ))}
+        <option value={newGroup}>New pad group ({newGroup})</option>
+      </select>
+    </label>
+  );
+};
+
+/**
+ * Known concentration of a calibration standard, entered in the user's unit system
+ *
+ * Keeps its own text so partial input like "1." is not reformatted while typing.
+ */
+const KnownConcentrationInput: React.FC<{
+  crosshair: PlacedCrosshair;
+  onChange: (value: number | undefined) => void;
+  disabled: boolean;
+}> = ({ crosshair, onChange, disabled }) => {
+  const testType = useTestTypes().get(crosshair.testType);
+  const { unitSystem } = useUnitSystem();
+  const displayUnit = getDisplayUnit(testType, unitSystem);
+  const factor = displayUnit?.factor ?? 1;
+  const [text, setText] = useState(() =>
+    crosshair.knownConcentration === undefined ? '' : Number((crosshair.knownConcentration * factor).toPrecision(6)).toString()
+  );
+
+  const handleChange = (value: string) => {
+    setText(value);
+    const parsed = Number(value);
+    onChange(value.trim() !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed / factor : undefined);
+  };
+
+  return (
+    <label className={`mt-3 flex items-center gap-2 ${TypographyScale.bodySmall} ${M3Colors.onSurfaceVariant}`}>
+      <span className="whitespace-nowrap">Known concentration</span>
+      <input
+        type="number"
+        inputMode="decimal"
+        min={0}
+        step="any"
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={disabled}
+        className={`flex-1 min-w-0 border ${M3Colors.outline} rounded-xl ${TypographyScale.bodyMedium} px-2`}
+        style={{ minHeight: TouchTargets.minimum }}
+      />
+      {displayUnit && <span className="whitespace-nowrap">{displayUnit.unit}</span>}
+    </label>
+  );
+};
+
+/**
+ * Colour sampled in the point's region when it was placed, moved or resized
+ */
+const SampledColorSummary: React.FC<{ crosshair: PlacedCrosshair }> = ({ crosshair }) => {
+  if (!crosshair.sampledColor) return null;
+  const { mean } = crosshair.sampledColor;
+  const readout = formatSampledColor(crosshair.sampledColor);
+
+  return (
+    <div className={`flex items-center gap-2 mb-2 ${TypographyScale.bodySmall} ${M3Colors.onSurfaceVariant}`}>
+      <span
+        className={`inline-block rounded-full border ${M3Colors.outline}`}
+        style={{ width: 20, height: 20, background: `rgb(${mean.r}, ${mean.g}, ${mean.b})` }}
+        aria-hidden="true"
+      />
+      <span>
+        {readout.rgb} · {readout.lab} · {readout.stdDev}
+      </span>
+    </div>
+  );
+};
+
+CrosshairEditPanel.displayName = 'CrosshairEditPanel';
+SampledColorSummary.displayName = 'SampledColorSummary';
+RegionEditor.displayName = 'RegionEditor';
+ReplicateGroupSelect.displayName = 'ReplicateGroupSelect';
+KnownConcentrationInput.displayName = 'KnownConcentrationInput';
+
+export default CrosshairEditPanel;
@@ -0,0 +1,79 @@
+'use client';
+import { M3Colors } from '@/constants/themeConstants';
+import { useUnitSystem } from '@/contexts/UnitSystemContext';
+import { DerivedMetricResult } from '@/types';
+import { convertConcentration, getDisplayUnit } from '@/utils/unitConversion';
+import React from 'react';
+
+interface DerivedMetricsTableProps {
+  metrics: DerivedMetricResult[];
+}
+
+const headerClassName = `px-3 py-2 text-left text-sm font-semibold ${M3Colors.onSecondaryContainer}`;
+const cellClassName = `whitespace-nowrap px-3 py-2 text-sm ${M3Colors.onSurfaceVariant}`;
+
+/**
+ * Derived ratios with their categories, in the user's unit system
+ */
+const DerivedMetricsTable: React.FC<DerivedMetricsTableProps> = React.memo(({ metrics }) => {
+  const { unitSystem } = useUnitSystem();
+
+  return (
+    <table className="w-full min-w-full divide-y divide-gray-200 mb-6" role="table" aria-label="Derived metrics table">
+      <caption className={`text-left text-sm font-semibold mb-2 ${M3Colors.onSurface}`}>Derived Metrics</caption>
+      <thead className={`${M3Colors.secondaryContainer}`}>
+        <tr>
+          <th scope="col" className={headerClassName}>
+            Metric
+          </th>
+          <th scope="col" className={headerClassName}>
+            Value
+          </th>
+          <th scope="col" className={headerClassName}>
+            Category
+          </th>
+        </tr>
+      </thead>
+      <tbody className={`divide-y ${M3Colors.outline} ${M3Colors.surface}`}>
+        {metrics.map(({ definition, value, category, note, provisional }) => {
+          const unit = getDisplayUnit(definition, unitSystem)?.unit;
+          return (
+            <tr key={`derived-${definition.id}`}>
+              <td className={cellClassName}>
+                {definition.id}
+                <span className="block text-xs">{definition.name}</span>
+              </td>
+              <td className={cellClassName}>
+                {value !== null ? (
+                  <>
+                    {provisional ? '≈' : ''}
+                    {convertConcentration(value, definition, unitSystem).toFixed(2)}
+                    {unit ? ` ${unit}` : ''}
+                  </>
+                ) : (
+                  <>
+                    —<span className="block text-xs">{note}</span>
+                  </>
+                )}
+              </td>
+              <td className={cellClassName}>
+                {category ? (
+                  <>
+                    {category.label}
+                    <span className="block text-xs">{category.description}</span>
+                  </>
+                ) : (
+                  '—'
+                )}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+});
+
+DerivedMetricsTable.displayName = 'DerivedMetricsTable';
+
+export default DerivedMetricsTable;
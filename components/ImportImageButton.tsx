@@ -0,0 +1,36 @@
+'use client';
+import TouchButton from '@/components/TouchButton';
+import React, { useRef } from 'react';
+
+interface ImportImageButtonProps {
+  onImport: (file: File) => void;
+  disabled: boolean;
+  className?: string;
+}
+
+/**
+ * Opens the file picker to analyse an existing photo instead of the live camera
+ */
+const ImportImageButton: React.FC<ImportImageButtonProps> = React.memo(({ onImport, disabled, className = '' }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires a change event
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+
+  return (
+    <>
+      <input ref={inputRef} type="file" accept="image/*" className="hidden" onChange={handleChange} tabIndex={-1} aria-hidden="true" />
+      <TouchButton onClick={() => inputRef.current?.click()} disabled={disabled} variant="secondary" size="large" className={className}>
+        Import Image
+      </TouchButton>
+    </>
+  );
+});
+
+ImportImageButton.displayName = 'ImportImageButton';
+
+export default ImportImageButton;
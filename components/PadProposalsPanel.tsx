@@ -0,0 +1,105 @@
+'use client';
+import TouchButton from '@/components/TouchButton';
+import { M3Colors, TouchTargets, TypographyScale } from '@/constants/themeConstants';
+import { useTestTypes } from '@/contexts/TestTypeContext';
+import { ProposedCrosshair, TestType } from '@/types';
+import { getTestTypeBadgeStyle } from '@/utils/testTypeRegistry';
+import React from 'react';
+
+interface PadProposalsPanelProps {
+  proposals: ProposedCrosshair[];
+  selectedProposalId: string | null;
+  onSelect: (id: string | null) => void;
+  onTestTypeChange: (id: string, testType: TestType) => void;
+  onAccept: (id: string) => void;
+  onReject: (id: string) => void;
+  onAcceptAll: () => void;
+  onRejectAll: () => void;
+  disabled: boolean;
+}
+
+/**
+ * Review list for crosshairs proposed by automatic pad detection
+ *
+ * Each proposal can be retyped, moved (select it, then tap the image),
+ * accepted into the placed points or rejected.
+ */
+const PadProposalsPanel: React.FC<PadProposalsPanelProps> = React.memo(
+  ({ proposals, selectedProposalId, onSelect, onTestTypeChange, onAccept, onReject, onAcceptAll, onRejectAll, disabled }) => {
+    const testTypes = useTestTypes();
+
+    return (
+      <section
+        className={`p-3 rounded-2xl ${M3Colors.surface} border ${M3Colors.outline} ${M3Colors.shadowMd}`}
+        aria-labelledby="pad-proposals-title"
+      >
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <h2 id="pad-proposals-title" className={`${TypographyScale.titleSmall} ${M3Colors.onSurface}`}>
+            Detected pads ({proposals.length})
+          </h2>
+          <div className="flex gap-2">
+            <TouchButton onClick={onAcceptAll} disabled={disabled} variant="primary" size="small">
+              Accept All
+            </TouchButton>
+            <TouchButton onClick={onRejectAll} disabled={disabled} variant="secondary" size="small">
+              Reject All
+            </TouchButton>
+          </div>
+        </div>
+
+        <p className={`${TypographyScale.bodySmall} ${M3Colors.onSurfaceVariant} mb-2`}>
+          {selectedProposalId ? 'Tap the image to move the selected proposal.' : 'Select a proposal to move it, or accept/reject it.'}
+        </p>
+
+        <ul className="space-y-2 max-h-32 overflow-y-auto">
+          {proposals.map((proposal, index) => {
+            const isSelected = proposal.id === selectedProposalId;
+            return (
+              <li key={proposal.id} className={`flex items-center gap-2 p-1 rounded-xl ${isSelected ? M3Colors.primaryContainer : ''}`}>
+                <button
+                  type="button"
+                  onClick={() => onSelect(isSelected ? null : proposal.id)}
+                  disabled={disabled}
+                  aria-pressed={isSelected}
+                  aria-label={`Select proposal ${index + 1} to move it`}
+                  className={`rounded-full font-bold ${TypographyScale.labelMedium} focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                  style={{
+                    ...getTestTypeBadgeStyle(testTypes.get(proposal.testType)),
+                    minWidth: TouchTargets.minimum,
+                    minHeight: TouchTargets.minimum
+                  }}
+                >
+                  {index + 1}
+                </button>
+                <select
+                  value={proposal.testType}
+                  onChange={(e) => onTestTypeChange(proposal.id, e.target.value)}
+                  disabled={disabled}
+                  aria-label={`Test type for proposal ${index + 1}`}
+                  className={`flex-1 min-w-0 border ${M3Colors.outline} rounded-xl ${TypographyScale.bodyMedium} px-2`}
+                  style={{ minHeight: TouchTargets.minimum }}
+                >
+                  {testTypes.types.map((testType) => (
+                    <option key={testType.id} value={testType.id}>
+                      {testType.name}
+                    </option>
+                  ))}
+                </select>
+                <TouchButton onClick={() => onAccept(proposal.id)} disabled={disabled} variant="tertiary" size="small">
+                  Accept
+                </TouchButton>
+                <TouchButton onClick={() => onReject(proposal.id)} disabled={disabled} variant="secondary" size="small">
+                  Reject
+                </TouchButton>
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+    );
+  }
+);
+
+PadProposalsPanel.displayName = 'PadProposalsPanel';
+
+export default PadProposalsPanel;
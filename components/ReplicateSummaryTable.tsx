@@ -0,0 +1,84 @@
+'use client';
+import { M3Colors } from '@/constants/themeConstants';
+import { useTestTypes } from '@/contexts/TestTypeContext';
+import { useUnitSystem } from '@/contexts/UnitSystemContext';
+import { ReplicateSummary } from '@/types';
+import { convertConcentration, getDisplayUnit } from '@/utils/unitConversion';
+import React from 'react';
+
+interface ReplicateSummaryTableProps {
+  summaries: ReplicateSummary[];
+  cvThresholdPercent: number;
+}
+
+const headerClassName = `px-3 py-2 text-left text-sm font-semibold ${M3Colors.onSecondaryContainer}`;
+const cellClassName = `whitespace-nowrap px-3 py-2 text-sm ${M3Colors.onSurfaceVariant}`;
+
+/**
+ * Per-pad statistics for replicate groups, in the user's unit system
+ */
+const ReplicateSummaryTable: React.FC<ReplicateSummaryTableProps> = React.memo(({ summaries, cvThresholdPercent }) => {
+  const testTypes = useTestTypes();
+  const { unitSystem } = useUnitSystem();
+
+  return (
+    <table className="w-full min-w-full divide-y divide-gray-200 mb-6" role="table" aria-label="Replicate summary table">
+      <caption className={`text-left text-sm font-semibold mb-2 ${M3Colors.onSurface}`}>
+        Replicate Summary <span className={`font-normal ${M3Colors.onSurfaceVariant}`}>(flagged above {cvThresholdPercent}% CV)</span>
+      </caption>
+      <thead className={`${M3Colors.secondaryContainer}`}>
+        <tr>
+          <th scope="col" className={headerClassName}>
+            Test Type
+          </th>
+          <th scope="col" className={headerClassName}>
+            Points
+          </th>
+          <th scope="col" className={headerClassName}>
+            Mean ± SD
+          </th>
+          <th scope="col" className={headerClassName}>
+            CV
+          </th>
+          <th scope="col" className={headerClassName}>
+            Min–Max
+          </th>
+        </tr>
+      </thead>
+      <tbody className={`divide-y ${M3Colors.outline} ${M3Colors.surface}`}>
+        {summaries.map((summary) => {
+          const testType = testTypes.get(summary.testType);
+          const unit = getDisplayUnit(testType, unitSystem)?.unit;
+          const format = (value: number) => convertConcentration(value, testType, unitSystem).toFixed(2);
+          return (
+            <tr key={`replicate-${summary.testType}-${summary.group}`} className={summary.isUnreliable ? 'bg-red-50' : undefined}>
+              <td className={cellClassName}>
+                {testType.name} <span className="text-xs">(group {summary.group})</span>
+              </td>
+              <td className={cellClassName}>
+                {summary.pointIndices.join(', ')}
+                {summary.count < summary.pointIndices.length && <span className="block text-xs">{summary.count} measured</span>}
+              </td>
+              <td className={cellClassName}>
+                {format(summary.mean)}
+                {summary.sd !== null ? ` ± ${format(summary.sd)}` : ''}
+                {unit ? ` ${unit}` : ''}
+              </td>
+              <td className={cellClassName}>
+                {summary.cvPercent !== null ? `${summary.cvPercent.toFixed(1)}%` : '—'}
+                {summary.isUnreliable && <span className="block text-xs font-semibold text-red-700">Unreliable</span>}
+              </td>
+              <td className={cellClassName}>
+                {format(summary.min)}–{format(summary.max)}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+});
+
+ReplicateSummaryTable.displayName = 'ReplicateSummaryTable';
+
+export default ReplicateSummaryTable;
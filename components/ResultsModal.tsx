@@ -1,92 +1,168 @@
 'use client';
+import DerivedMetricsTable from '@/components/DerivedMetricsTable';
+import ReplicateSummaryTable from '@/components/ReplicateSummaryTable';
+import UnitSystemSelect from '@/components/UnitSystemSelect';
+import { REPLICATE_CV_THRESHOLD_PERCENT } from '@/constants/appConstants';
 import { M3Colors } from '@/constants/themeConstants';
+import { useTestTypes } from '@/contexts/TestTypeContext';
+import { useUnitSystem } from '@/contexts/UnitSystemContext';
 import { ResultsModalProps } from '@/types';
+import { describeCalibration, isMeasured } from '@/utils/calibration';
+import { downloadTextFile } from '@/utils/downloadUtils';
+import { findReplicateSummary } from '@/utils/replicates';
+import { buildResultsCsv } from '@/utils/resultsExport';
+import { formatRemarks } from '@/utils/testTypeRegistry';
+import { convertConcentration, formatReferenceRange, getDisplayUnit } from '@/utils/unitConversion';
 import React, { useEffect, useRef } from 'react';
 
-const ResultsModal: React.FC<ResultsModalProps> = React.memo(({ results, onClose }) => {
-  const modalRef = useRef<HTMLDivElement>(null);
-  const closeButtonRef = useRef<HTMLButtonElement>(null);
+const ResultsModal: React.FC<ResultsModalProps> = React.memo(
+  ({ results, calibration = null, replicateSummaries = [], derivedMetrics = [], onClose }) => {
+    const modalRef = useRef<HTMLDivElement>(null);
+    const closeButtonRef = useRef<HTMLButtonElement>(null);
+    const testTypes = useTestTypes();
+    const { unitSystem } = useUnitSystem();
+    const provisionalResult = results.find((result) => result.provisional);
 
-  // Focus management and escape key handling
-  useEffect(() => {
-    const handleEscape = (e: KeyboardEvent) => {
-      if (e.key === 'Escape') {
-        onClose();
-      }
-    };
+    // Focus management and escape key handling
+    useEffect(() => {
+      const handleEscape = (e: KeyboardEvent) => {
+        if (e.key === 'Escape') {
+          onClose();
+        }
+      };
 
-    // Focus the close button when modal opens
-    closeButtonRef.current?.focus();
+      // Focus the close button when modal opens
+      closeButtonRef.current?.focus();
 
-    document.addEventListener('keydown', handleEscape);
-    return () => document.removeEventListener('keydown', handleEscape);
-  }, [onClose]);
+      document.addEventListener('keydown', handleEscape);
+      return () => document.removeEventListener('keydown', handleEscape);
+    }, [onClose]);
 
-  // Handle backdrop click
-  const handleBackdropClick = (e: React.MouseEvent) => {
-    if (e.target === e.currentTarget) {
-      onClose();
-    }
-  };
-  return (
-    <div
-      ref={modalRef}
-      className={`fixed inset-0 ${M3Colors.surfaceContainer} bg-opacity-75 flex items-center justify-center z-50 p-4`}
-      aria-labelledby="results-modal-title"
-      role="dialog"
-      aria-modal="true"
-      onClick={handleBackdropClick}
-    >
-      <div className={`${M3Colors.surface} rounded-2xl ${M3Colors.shadow} max-w-xl w-full flex flex-col ${M3Colors.onSurface} overflow-hidden`}>
-        <div className={`p-6 border-b ${M3Colors.outline}`}>
-          <h2 id="results-modal-title" className={`text-2xl font-semibold ${M3Colors.onSurface}`}>
-            Analysis Results
-          </h2>
-        </div>
-        <div className="p-6 max-h-[60vh] overflow-y-auto">
-          <table className="w-full min-w-full divide-y divide-gray-200" role="table" aria-label="Analysis results table">
-            <caption className="sr-only">Analysis results showing point number, test type, concentration, and remarks</caption>
-            <thead className={`${M3Colors.secondaryContainer}`}>
-              <tr>
-                <th scope="col" className={`px-4 py-3.5 text-left text-sm font-semibold ${M3Colors.onSecondaryContainer}`}>
-                  Point #
-                </th>
-                <th scope="col" className={`px-4 py-3.5 text-left text-sm font-semibold ${M3Colors.onSecondaryContainer}`}>
-                  Test Type
-                </th>
-                <th scope="col" className={`px-4 py-3.5 text-left text-sm font-semibold ${M3Colors.onSecondaryContainer}`}>
-                  Concentration
-                </th>
-                <th scope="col" className={`px-4 py-3.5 text-left text-sm font-semibold ${M3Colors.onSecondaryContainer}`}>
-                  Remark
-                </th>
-              </tr>
-            </thead>
-            <tbody className={`divide-y ${M3Colors.outline} ${M3Colors.surface}`}>
-              {results.map((result) => (
-                <tr key={`result-${result.pointIndex}-${result.test_type}`}>
-                  <td className={`whitespace-nowrap px-4 py-3 text-sm ${M3Colors.onSurfaceVariant}`}>{result.pointIndex}</td>
-                  <td className={`whitespace-nowrap px-4 py-3 text-sm ${M3Colors.onSurfaceVariant}`}>{result.test_type}</td>
-                  <td className={`whitespace-nowrap px-4 py-3 text-sm ${M3Colors.onSurfaceVariant}`}>{result.concentration.toFixed(2)}</td>
-                  <td className={`whitespace-nowrap px-4 py-3 text-sm ${M3Colors.onSurfaceVariant}`}>{result.remarks}</td>
+    const handleExportCsv = () => {
+      downloadTextFile(
+        `results-${new Date().toISOString().slice(0, 10)}.csv`,
+        buildResultsCsv(results, testTypes, unitSystem, replicateSummaries, derivedMetrics),
+        'text/csv'
+      );
+    };
+
+    // Handle backdrop click
+    const handleBackdropClick = (e: React.MouseEvent) => {
+      if (e.target === e.currentTarget) {
+        onClose();
+      }
+    };
+    return (
+      <div
+        ref={modalRef}
+        className={`fixed inset-0 ${M3Colors.surfaceContainer} bg-opacity-75 flex items-center justify-center z-50 p-4`}
+        aria-labelledby="results-modal-title"
+        role="dialog"
+        aria-modal="true"
+        onClick={handleBackdropClick}
+      >
+        <div
+          className={`${M3Colors.surface} rounded-2xl ${M3Colors.shadow} max-w-xl w-full flex flex-col ${M3Colors.onSurface} overflow-hidden`}
+        >
+          <div className={`p-6 border-b ${M3Colors.outline} flex items-center justify-between gap-4`}>
+            <h2 id="results-modal-title" className={`text-2xl font-semibold ${M3Colors.onSurface}`}>
+              Analysis Results
+            </h2>
+            <UnitSystemSelect />
+          </div>
+          <p className={`px-6 pt-4 text-sm ${M3Colors.onSurfaceVariant}`}>
+            {calibration ? `Calibration ${describeCalibration(calibration)}` : 'No calibration applied'}
+          </p>
+          {provisionalResult && (
+            <p className="mx-6 mt-3 p-3 rounded-xl bg-amber-100 text-amber-900 text-sm" role="note">
+              Provisional on-device estimate (colour table {provisionalResult.colourTableVersion}). The server could not be reached; confirm
+              these results with it before reporting them.
+            </p>
+          )}
+          <div className="p-6 max-h-[60vh] overflow-y-auto">
+            {derivedMetrics.length > 0 && <DerivedMetricsTable metrics={derivedMetrics} />}
+            {replicateSummaries.length > 0 && (
+              <ReplicateSummaryTable summaries={replicateSummaries} cvThresholdPercent={REPLICATE_CV_THRESHOLD_PERCENT} />
+            )}
+            <table className="w-full min-w-full divide-y divide-gray-200" role="table" aria-label="Analysis results table">
+              <caption className="sr-only">
+                Analysis results showing point number, test type, concentration, reference range, and remarks
+              </caption>
+              <thead className={`${M3Colors.secondaryContainer}`}>
+                <tr>
+                  <th scope="col" className={`px-4 py-3.5 text-left text-sm font-semibold ${M3Colors.onSecondaryContainer}`}>
+                    Point #
+                  </th>
+                  <th scope="col" className={`px-4 py-3.5 text-left text-sm font-semibold ${M3Colors.onSecondaryContainer}`}>
+                    Test Type
+                  </th>
+                  <th scope="col" className={`px-4 py-3.5 text-left text-sm font-semibold ${M3Colors.onSecondaryContainer}`}>
+                    Concentration
+                  </th>
+                  <th scope="col" className={`px-4 py-3.5 text-left text-sm font-semibold ${M3Colors.onSecondaryContainer}`}>
+                    Reference Range
+                  </th>
+                  <th scope="col" className={`px-4 py-3.5 text-left text-sm font-semibold ${M3Colors.onSecondaryContainer}`}>
+                    Remark
+                  </th>
                 </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
-        <div className={`p-6 border-t ${M3Colors.outline} flex justify-end`}>
-          <button
-            ref={closeButtonRef}
-            onClick={onClose}
-            className={`${M3Colors.primary} ${M3Colors.onPrimary} font-medium py-2.5 px-6 rounded-full text-sm transition-transform duration-150 ease-in-out hover:scale-105 focus:outline-none focus:ring-4 focus:ring-indigo-300`}
-          >
-            Close
-          </button>
+              </thead>
+              <tbody className={`divide-y ${M3Colors.outline} ${M3Colors.surface}`}>
+                {results.map((result) => {
+                  const testType = testTypes.get(result.test_type);
+                  const unit = getDisplayUnit(testType, unitSystem)?.unit;
+                  const replicate = findReplicateSummary(replicateSummaries, result.pointIndex);
+                  const measured = isMeasured(result);
+                  return (
+                    <tr key={`result-${result.pointIndex}-${result.test_type}`}>
+                      <td className={`whitespace-nowrap px-4 py-3 text-sm ${M3Colors.onSurfaceVariant}`}>
+                        {result.pointIndex}
+                        {replicate && <span className="block text-xs">group {replicate.group}</span>}
+                      </td>
+                      <td className={`whitespace-nowrap px-4 py-3 text-sm ${M3Colors.onSurfaceVariant}`}>{testType.name}</td>
+                      <td className={`whitespace-nowrap px-4 py-3 text-sm ${M3Colors.onSurfaceVariant}`}>
+                        {measured ? convertConcentration(result.concentration, testType, unitSystem).toFixed(2) : '—'}
+                        {measured && unit ? ` ${unit}` : ''}
+                        {measured && result.rawConcentration !== undefined && (
+                          <span className="block text-xs">
+                            reported {convertConcentration(result.rawConcentration, testType, unitSystem).toFixed(2)}
+                          </span>
+                        )}
+                      </td>
+                      <td className={`whitespace-nowrap px-4 py-3 text-sm ${M3Colors.onSurfaceVariant}`}>
+                        {formatReferenceRange(testType, unitSystem) ?? '—'}
+                      </td>
+                      <td className={`whitespace-nowrap px-4 py-3 text-sm ${M3Colors.onSurfaceVariant}`}>
+                        {formatRemarks(result.remarks)}
+                        {result.remarksPreCalibration && <span className="block text-xs">pre-calibration</span>}
+                        {replicate?.isUnreliable && <span className="block text-xs font-semibold text-red-700">Unreliable replicate</span>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div className={`p-6 border-t ${M3Colors.outline} flex justify-end gap-3`}>
+            <button
+              onClick={handleExportCsv}
+              className={`${M3Colors.secondaryContainer} ${M3Colors.onSecondaryContainer} font-medium py-2.5 px-6 rounded-full text-sm focus:outline-none focus:ring-4 focus:ring-indigo-300`}
+            >
+              Export CSV
+            </button>
+            <button
+              ref={closeButtonRef}
+              onClick={onClose}
+              className={`${M3Colors.primary} ${M3Colors.onPrimary} font-medium py-2.5 px-6 rounded-full text-sm transition-transform duration-150 ease-in-out hover:scale-105 focus:outline-none focus:ring-4 focus:ring-indigo-300`}
+            >
+              Close
+            </button>
+          </div>
         </div>
       </div>
-    </div>
-  );
-});
+    );
+  }
+);
 
 ResultsModal.displayName = 'ResultsModal';
 
@@ -0,0 +1,56 @@
+'use client';
+import TouchButton from '@/components/TouchButton';
+import { M3Colors, TypographyScale } from '@/constants/themeConstants';
+import React from 'react';
+
+interface StraightenPanelProps {
+  cornersDetected: boolean;
+  isRectified: boolean; // A deskewed image is currently in use
+  onApply: () => void;
+  onUseOriginal: () => void;
+  onCancel: () => void;
+  disabled: boolean;
+}
+
+/**
+ * Controls for the perspective correction step
+ *
+ * Shown while the strip corners are being edited on the original image.
+ */
+const StraightenPanel: React.FC<StraightenPanelProps> = React.memo(
+  ({ cornersDetected, isRectified, onApply, onUseOriginal, onCancel, disabled }) => {
+    return (
+      <section
+        className={`p-3 rounded-2xl ${M3Colors.surface} border ${M3Colors.outline} ${M3Colors.shadowMd}`}
+        aria-labelledby="straighten-title"
+      >
+        <h2 id="straighten-title" className={`${TypographyScale.titleSmall} ${M3Colors.onSurface} mb-1`}>
+          Straighten strip
+        </h2>
+        <p className={`${TypographyScale.bodySmall} ${M3Colors.onSurfaceVariant} mb-3`}>
+          {cornersDetected
+            ? 'Strip corners detected. Drag them to adjust, then apply.'
+            : 'Strip not detected. Drag the four corners onto the strip, then apply.'}{' '}
+          Placed points are cleared.
+        </p>
+        <div className="flex flex-col sm:flex-row gap-3">
+          <TouchButton onClick={onApply} disabled={disabled} variant="primary" size="medium" className="flex-1">
+            Apply
+          </TouchButton>
+          {isRectified && (
+            <TouchButton onClick={onUseOriginal} disabled={disabled} variant="tertiary" size="medium" className="flex-1">
+              Use Original
+            </TouchButton>
+          )}
+          <TouchButton onClick={onCancel} disabled={disabled} variant="secondary" size="medium" className="flex-1">
+            Cancel
+          </TouchButton>
+        </div>
+      </section>
+    );
+  }
+);
+
+StraightenPanel.displayName = 'StraightenPanel';
+
+export default StraightenPanel;
@@ -0,0 +1,125 @@
+'use client';
+import TouchButton from '@/components/TouchButton';
+import { M3Colors, TouchTargets, TypographyScale } from '@/constants/themeConstants';
+import { StripTemplate } from '@/types';
+import React, { useRef, useState } from 'react';
+
+interface TemplateControlsProps {
+  templates: StripTemplate[];
+  placedCrosshairsCount: number;
+  onApply: (template: StripTemplate) => void;
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  disabled: boolean;
+}
+
+/**
+ * Collapsible controls for saving, applying and sharing strip layout templates
+ */
+const TemplateControls: React.FC<TemplateControlsProps> = React.memo(
+  ({ templates, placedCrosshairsCount, onApply, onSave, onDelete, onImport, onExport, disabled }) => {
+    const [selectedId, setSelectedId] = useState<string>('');
+    const [name, setName] = useState<string>('');
+    const inputRef = useRef<HTMLInputElement>(null);
+    const selectedTemplate = templates.find((template) => template.id === selectedId) ?? templates[0];
+
+    const handleSave = (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!name.trim()) return;
+      onSave(name);
+      setName('');
+    };
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      // Reset so picking the same file again still fires a change event
+      e.target.value = '';
+      if (file) onImport(file);
+    };
+
+    return (
+      <details className={`p-3 rounded-2xl ${M3Colors.surface} border ${M3Colors.outline} ${M3Colors.shadowMd}`}>
+        <summary className={`${TypographyScale.titleSmall} ${M3Colors.onSurface} cursor-pointer`}>
+          Layout templates ({templates.length})
+        </summary>
+
+        <div className="mt-3 space-y-3">
+          <div className="flex gap-2">
+            <select
+              value={selectedTemplate?.id ?? ''}
+              onChange={(e) => setSelectedId(e.target.value)}
+              disabled={disabled || templates.length === 0}
+              aria-label="Saved template"
+              className={`flex-1 min-w-0 border ${M3Colors.outline} rounded-xl ${TypographyScale.bodyMedium} px-2`}
+              style={{ minHeight: TouchTargets.minimum }}
+            >
+              {templates.length === 0 && <option value="">No templates saved</option>}
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.name} ({template.points.length} points)
+                </option>
+              ))}
+            </select>
+            <TouchButton
+              onClick={() => selectedTemplate && onApply(selectedTemplate)}
+              disabled={disabled || !selectedTemplate}
+              variant="primary"
+              size="small"
+            >
+              Apply
+            </TouchButton>
+            <TouchButton
+              onClick={() => selectedTemplate && onDelete(selectedTemplate.id)}
+              disabled={disabled || !selectedTemplate}
+              variant="secondary"
+              size="small"
+              aria-label="Delete selected template"
+            >
+              Delete
+            </TouchButton>
+          </div>
+
+          <form className="flex gap-2" onSubmit={handleSave}>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={disabled}
+              placeholder="Template name"
+              aria-label="New template name"
+              className={`flex-1 min-w-0 border ${M3Colors.outline} rounded-xl ${TypographyScale.bodyMedium} px-2`}
+              style={{ minHeight: TouchTargets.minimum }}
+            />
+            <TouchButton type="submit" disabled={disabled || !name.trim() || placedCrosshairsCount === 0} variant="secondary" size="small">
+              Save Current
+            </TouchButton>
+          </form>
+
+          <div className="flex gap-2">
+            <input
+              ref={inputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleFileChange}
+              tabIndex={-1}
+              aria-hidden="true"
+            />
+            <TouchButton onClick={() => inputRef.current?.click()} disabled={disabled} variant="tertiary" size="small" className="flex-1">
+              Import JSON
+            </TouchButton>
+            <TouchButton onClick={onExport} disabled={disabled || templates.length === 0} variant="tertiary" size="small" className="flex-1">
+              Export JSON
+            </TouchButton>
+          </div>
+        </div>
+      </details>
+    );
+  }
+);
+
+TemplateControls.displayName = 'TemplateControls';
+
+export default TemplateControls;
@@ -0,0 +1,35 @@
+'use client';
+import { UNIT_SYSTEM_LABELS } from '@/constants/appConstants';
+import { M3Colors, TouchTargets, TypographyScale } from '@/constants/themeConstants';
+import { useUnitSystem } from '@/contexts/UnitSystemContext';
+import { UnitSystem } from '@/types';
+import React from 'react';
+
+/**
+ * Picker for the unit system concentrations are shown and exported in
+ */
+const UnitSystemSelect: React.FC<{ className?: string }> = React.memo(({ className = '' }) => {
+  const { unitSystem, setUnitSystem } = useUnitSystem();
+
+  return (
+    <label className={`flex items-center gap-2 ${TypographyScale.bodySmall} ${M3Colors.onSurfaceVariant} ${className}`}>
+      Units
+      <select
+        value={unitSystem}
+        onChange={(e) => setUnitSystem(e.target.value as UnitSystem)}
+        className={`border ${M3Colors.outline} rounded-xl ${TypographyScale.bodyMedium} ${M3Colors.onSurface} bg-white px-2`}
+        style={{ minHeight: TouchTargets.minimum }}
+      >
+        {(Object.keys(UNIT_SYSTEM_LABELS) as UnitSystem[]).map((system) => (
+          <option key={system} value={system}>
+            {UNIT_SYSTEM_LABELS[system]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+});
+
+UnitSystemSelect.displayName = 'UnitSystemSelect';
+
+export default UnitSystemSelect;
@@ -1,9 +1,189 @@
+import { AnalysisErrorKind, CameraResolution, CaptureProfile, SamplingRegion, UnitSystem } from '@/types';
+
 export const videoConstraints = {
   video: {
     facingMode: 'environment' as const
   }
 };
 
-export const CAMERA_ZOOM_FACTOR = 2.5;
-export const CROSSHAIR_SIZE = 15; // percentage of width to be used for crosshair
+/**
+ * Target capture resolutions offered in the camera picker.
+ * Sizes are requested as `ideal` constraints, so the browser falls back
+ * to the closest mode the selected camera supports.
+ */
+export const CAMERA_RESOLUTIONS: Record<CameraResolution, { label: string; width?: number; height?: number }> = {
+  auto: { label: 'Auto' },
+  hd: { label: '1280 × 720', width: 1280, height: 720 },
+  fullHd: { label: '1920 × 1080', width: 1920, height: 1080 },
+  uhd: { label: '3840 × 2160', width: 3840, height: 2160 }
+};
+
+export const CAMERA_PREFERENCES_STORAGE_KEY = 'colours.cameraPreferences';
+
+/**
+ * Capture pipeline profiles: image format, quality, zoom and output size
+ * used by live capture, imported images and the analysis upload alike.
+ *
+ * BIOMEDICAL CRITICAL: 2.5x zoom ensures adequate detail for color analysis
+ * This zoom level provides optimal balance between:
+ * - Color sampling accuracy (larger pixels = better color detection)
+ * - Field of view (captures full test strip area)
+ * - Image stability (manageable camera shake)
+ *
+ * Lossless formats avoid JPEG chroma subsampling, which blurs colour across
+ * pad edges and shifts the sampled colour of small pads.
+ */
+export const CAPTURE_PROFILES: Record<string, CaptureProfile> = {
+  lossless: { format: 'png', quality: 1, zoomFactor: 2.5, maxOutputDimension: null },
+  webpLossless: { format: 'webp-lossless', quality: 1, zoomFactor: 2.5, maxOutputDimension: null },
+  jpeg: { format: 'jpeg', quality: 0.98, zoomFactor: 2.5, maxOutputDimension: 1920 }
+};
+
+// Active profile, selectable per deployment via NEXT_PUBLIC_CAPTURE_PROFILE
+export const CAPTURE_PROFILE: CaptureProfile = CAPTURE_PROFILES[process.env.NEXT_PUBLIC_CAPTURE_PROFILE ?? ''] ?? CAPTURE_PROFILES.lossless;
+
+export const CROSSHAIR_SIZE = 15; // percentage of the frame height to be used for crosshair
 export const CROSSHAIR_SVG_PATH = '/crosshair2.svg';
+
+/**
+ * Zoom and pan of the captured image during crosshair placement
+ */
+export const ZOOM_PAN = {
+  maxScale: 6,
+  doubleTapScale: 3, // Zoom applied by a double tap when not already zoomed in
+  doubleTapMs: 300, // Window for a second tap; single taps are delayed by this much
+  tapSlopPx: 10, // Pointer travel below which a press still counts as a tap
+  wheelSensitivity: 0.002 // Scale change per wheel delta unit (exponential)
+};
+
+/**
+ * Sampling region given to new points, and the size range offered per point
+ */
+export const DEFAULT_SAMPLING_REGION: SamplingRegion = { shape: 'circle', radius: 0.025 };
+export const SAMPLING_REGION_LIMITS = {
+  min: 0.005,
+  max: 0.25,
+  step: 0.005
+};
+
+/**
+ * Arrow-key steps of the keyboard placement cursor, relative to the image
+ */
+export const KEYBOARD_PLACEMENT = {
+  step: 0.01,
+  fineStep: 0.002, // With Alt
+  coarseStep: 0.05 // With Shift
+};
+
+/**
+ * Magnifier loupe and on-device colour sampling while placing points
+ */
+export const LOUPE = {
+  analysisSize: 1280, // Longest side of the copy of the image used for sampling
+  viewRadiusMultiple: 3, // Loupe shows this many region half-sizes around the point
+  sizePx: 112 // On-screen diameter of the loupe
+};
+
+/**
+ * Pre-capture image quality gate.
+ * Sharpness is measured on a frame downscaled to `analysisSize` pixels on its
+ * longest side, so the threshold does not depend on the camera resolution.
+ */
+export const IMAGE_QUALITY_GATE = {
+  analysisSize: 320,
+  minSharpness: 50,
+  maxClippedFraction: 0.02,
+  minBrightness: 60,
+  maxBrightness: 200,
+  liveCheckIntervalMs: 500,
+  blockOnFailure: true // false = allow the capture but flag the reason in the toast
+};
+
+/**
+ * Auto-capture: fires once inter-frame motion stays below `motionThreshold`
+ * (mean absolute luminance difference, 0-255) for `dwellMs`.
+ */
+export const AUTO_CAPTURE = {
+  analysisSize: 96,
+  sampleIntervalMs: 100,
+  motionThreshold: 2.5,
+  dwellMs: 1500
+};
+
+/**
+ * Multi-frame averaging capture. Frames are rejected as a set when the
+ * motion between the first and any later frame exceeds `maxMotion`
+ * (same scale as AUTO_CAPTURE.motionThreshold).
+ */
+export const MULTI_FRAME_CAPTURE = {
+  frameCounts: [1, 4, 8, 16],
+  maxMotion: 3,
+  analysisSize: 96
+};
+
+export const CAPTURE_FRAME_COUNT_STORAGE_KEY = 'colours.captureFrameCount';
+
+export const STRIP_TEMPLATES_STORAGE_KEY = 'colours.stripTemplates';
+export const STRIP_TEMPLATES_FILE_VERSION = 1; // Bump when the exported JSON layout changes
+
+export const UNIT_SYSTEM_STORAGE_KEY = 'colours.unitSystem';
+export const CALIBRATIONS_STORAGE_KEY = 'colours.calibrations';
+export const ACTIVE_CALIBRATION_STORAGE_KEY = 'colours.activeCalibrationId';
+export const COLOUR_TABLE_STORAGE_KEY = 'colours.colourTable';
+
+// Names for the concentration unit systems in pickers
+export const UNIT_SYSTEM_LABELS: Record<UnitSystem, string> = {
+  conventional: 'Conventional',
+  si: 'SI'
+};
+
+// Aspect ratio (width / height) of the capture frame shown by CameraDisplay
+export const CAPTURE_ASPECT_RATIO = 4 / 3;
+// Imported photos are downscaled so the longest side does not exceed this
+export const IMPORT_MAX_DIMENSION = 3840;
+
+/**
+ * Pad detection thresholds. Colours are HSV on a 0-1 scale and areas are
+ * fractions of the (downscaled) image.
+ */
+export const PAD_DETECTION = {
+  analysisSize: 256,
+  minPadSaturation: 0.25,
+  minPadValue: 0.2,
+  maxWhiteSaturation: 0.15,
+  minWhiteValueRatio: 0.8, // relative to the brightest pixel, so dim lighting still finds the white area
+  minPadArea: 0.0005,
+  maxPadArea: 0.08,
+  minPadFill: 0.45, // component area / bounding box area
+  maxPadAspect: 3,
+  minStripArea: 0.01
+};
+
+// Replicate groups whose CV exceeds this are flagged as unreliable (e.g. NEXT_PUBLIC_REPLICATE_CV_THRESHOLD=10)
+export const REPLICATE_CV_THRESHOLD_PERCENT = Number(process.env.NEXT_PUBLIC_REPLICATE_CV_THRESHOLD) || 15;
+
+/**
+ * Analysis requests: each attempt times out after `timeoutMs`; network errors
+ * and 5xx responses are retried up to `maxAttempts` in total, waiting
+ * `initialBackoffMs` and multiplying the wait by `backoffMultiplier` each time.
+ */
+export const ANALYSIS_REQUEST = {
+  timeoutMs: 30000,
+  maxAttempts: 3,
+  initialBackoffMs: 1000,
+  backoffMultiplier: 2,
+  maxBackoffMs: 8000
+};
+
+// Toast headings for failed analyses
+export const ANALYSIS_ERROR_TITLES: Record<AnalysisErrorKind, string> = {
+  timeout: 'Timed out',
+  network: 'Connection failed',
+  server: 'Server error',
+  rejected: 'Request rejected',
+  'invalid-response': 'Unexpected server response',
+  cancelled: 'Cancelled',
+  client: 'Analysis failed'
+};
+
+export const UNDO_HISTORY_LIMIT = 100; // Crosshair edits kept for undo
@@ -1,5 +1,3 @@
-import { TestType } from '@/types';
-
 // M3 Expressive Medical Color Palette
 export const M3Colors = {
   // Primary: Trust & Reliability for Medical Context
@@ -46,34 +44,6 @@ export const M3Colors = {
   surfaceTint: 'bg-blue-600'
 };
 
-// M3 Expressive Test Type Colors - Medical & Accessible
-export const TestTypeColorValues: Record<TestType, { bg: string; text: string; container: string; onContainer: string }> = {
-  WHITE: {
-    bg: 'bg-neutral-600',
-    text: 'text-white',
-    container: 'bg-neutral-100',
-    onContainer: 'text-neutral-900'
-  },
-  ALB: {
-    bg: 'bg-green-600', // Protein marker - life/growth
-    text: 'text-white',
-    container: 'bg-green-100',
-    onContainer: 'text-green-900'
-  },
-  ALP: {
-    bg: 'bg-blue-600', // Enzyme marker - matches primary
-    text: 'text-white',
-    container: 'bg-blue-100',
-    onContainer: 'text-blue-900'
-  },
-  CREATININE: {
-    bg: 'bg-purple-600', // Kidney marker - distinctive
-    text: 'text-white',
-    container: 'bg-purple-100',
-    onContainer: 'text-purple-900'
-  }
-};
-
 // M3 Expressive Touch Target Sizes
 export const TouchTargets = {
   minimum: '44px', // Minimum touch target
@@ -0,0 +1,39 @@
+'use client';
+import { fetchTestTypes } from '@/services/testTypeService';
+import { createTestTypeRegistry, DEFAULT_TEST_TYPE_REGISTRY, TestTypeRegistry } from '@/utils/testTypeRegistry';
+import React, { createContext, useContext, useEffect, useState } from 'react';
+
+const TestTypeContext = createContext<TestTypeRegistry>(DEFAULT_TEST_TYPE_REGISTRY);
+
+/**
+ * Provides the test-type registry to every component
+ *
+ * Renders immediately with the bundled registry and switches to the
+ * backend's once loaded; a missing or invalid backend registry keeps the
+ * bundled one.
+ */
+export const TestTypeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [registry, setRegistry] = useState<TestTypeRegistry>(DEFAULT_TEST_TYPE_REGISTRY);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchTestTypes(controller.signal)
+      .then((definitions) => {
+        if (definitions) setRegistry(createTestTypeRegistry(definitions));
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) console.warn('Using bundled test types, backend registry unavailable:', error);
+      });
+
+    return () => controller.abort();
+  }, []);
+
+  return <TestTypeContext.Provider value={registry}>{children}</TestTypeContext.Provider>;
+};
+
+/**
+ * Current test-type registry
+ */
+export function useTestTypes(): TestTypeRegistry {
+  return useContext(TestTypeContext);
+}
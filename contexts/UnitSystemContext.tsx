@@ -0,0 +1,35 @@
+'use client';
+import { UNIT_SYSTEM_STORAGE_KEY } from '@/constants/appConstants';
+import { UnitSystem } from '@/types';
+import { loadFromStorage, saveToStorage } from '@/utils/storageUtils';
+import React, { createContext, useCallback, useContext, useMemo, useState } from 'react';
+
+interface UnitSystemContextValue {
+  unitSystem: UnitSystem;
+  setUnitSystem: (unitSystem: UnitSystem) => void;
+}
+
+const UnitSystemContext = createContext<UnitSystemContextValue>({ unitSystem: 'conventional', setUnitSystem: () => {} });
+
+/**
+ * Provides the user's concentration unit system, remembered between sessions
+ */
+export const UnitSystemProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [unitSystem, setUnitSystemState] = useState<UnitSystem>(() => loadFromStorage<UnitSystem>(UNIT_SYSTEM_STORAGE_KEY, 'conventional'));
+
+  const setUnitSystem = useCallback((next: UnitSystem) => {
+    setUnitSystemState(next);
+    saveToStorage(UNIT_SYSTEM_STORAGE_KEY, next);
+  }, []);
+
+  const value = useMemo(() => ({ unitSystem, setUnitSystem }), [unitSystem, setUnitSystem]);
+
+  return <UnitSystemContext.Provider value={value}>{children}</UnitSystemContext.Provider>;
+};
+
+/**
+ * Current unit system and a setter that persists it
+ */
+export function useUnitSystem(): UnitSystemContextValue {
+  return useContext(UnitSystemContext);
+}
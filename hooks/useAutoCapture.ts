@@ -0,0 +1,107 @@
+'use client';
+import { AUTO_CAPTURE } from '@/constants/appConstants';
+import { ImageQualityReport } from '@/types';
+import { LuminanceGrid, toLuminanceGrid } from '@/utils/imageQuality';
+import { measureFrameMotion } from '@/utils/motionDetection';
+import { extractZoomedFrame } from '@/utils/zoomUtils';
+import { RefObject, useEffect, useRef, useState } from 'react';
+
+interface UseAutoCaptureProps {
+  videoRef: RefObject<HTMLVideoElement | null>;
+  enabled: boolean; // Auto-capture switched on and the live view visible
+  onCapture: () => Promise<boolean> | boolean; // Same capture path as the manual button; false when the capture was blocked
+  liveQuality: ImageQualityReport | null; // Live quality indicator, which must pass again after a blocked capture
+}
+
+/**
+ * Triggers a capture once the camera has been held steady for a dwell time
+ *
+ * @description
+ * Samples small luminance frames from the video and measures inter-frame
+ * motion. While motion stays below AUTO_CAPTURE.motionThreshold the dwell
+ * progress grows; any movement resets it. When it reaches 1 the capture
+ * callback runs. A blocked capture pauses auto-capture until a newer live
+ * quality report passes, then a full steady period is needed again, so a
+ * phone held still over a bad frame does not retrigger it over and over.
+ *
+ * @param {UseAutoCaptureProps} props - Hook configuration
+ * @returns {number | null} Dwell progress from 0 to 1 for the countdown ring, or null when disabled
+ */
+export function useAutoCapture({ videoRef, enabled, onCapture, liveQuality }: UseAutoCaptureProps): number | null {
+  const [progress, setProgress] = useState<number | null>(null);
+  // Kept in refs so a new callback identity or quality report does not restart sampling
+  const onCaptureRef = useRef(onCapture);
+  const liveQualityRef = useRef(liveQuality);
+
+  useEffect(() => {
+    onCaptureRef.current = onCapture;
+    liveQualityRef.current = liveQuality;
+  }, [onCapture, liveQuality]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setProgress(null);
+      return;
+    }
+
+    let cancelled = false;
+    let capturing = false;
+    let previousGrid: LuminanceGrid | null = null;
+    let steadySince: number | null = null;
+    // Quality report current when a capture was blocked; sampling waits for a newer, passing one
+    let blockedAt: ImageQualityReport | null | undefined;
+
+    const sampleFrame = async () => {
+      const video = videoRef.current;
+      if (capturing || !video?.readyState || video.videoWidth === 0) return;
+
+      if (blockedAt !== undefined) {
+        const quality = liveQualityRef.current;
+        if (quality === blockedAt || !quality?.passed) return;
+        blockedAt = undefined;
+        steadySince = null;
+      }
+
+      try {
+        const frame = (await extractZoomedFrame(video, 'imageData', { maxDimension: AUTO_CAPTURE.analysisSize })) as ImageData;
+        if (cancelled) return;
+
+        const grid = toLuminanceGrid(frame, AUTO_CAPTURE.analysisSize);
+        const motion = previousGrid ? measureFrameMotion(previousGrid, grid) : Infinity;
+        previousGrid = grid;
+
+        const now = performance.now();
+        if (motion > AUTO_CAPTURE.motionThreshold) {
+          steadySince = null;
+          setProgress(0);
+          return;
+        }
+
+        steadySince ??= now;
+        const dwellProgress = Math.min(1, (now - steadySince) / AUTO_CAPTURE.dwellMs);
+        setProgress(dwellProgress);
+
+        if (dwellProgress >= 1) {
+          capturing = true;
+          const captured = await onCaptureRef.current();
+          capturing = false;
+          steadySince = null;
+          if (!captured) blockedAt = liveQualityRef.current;
+          if (!cancelled) setProgress(0);
+        }
+      } catch (error) {
+        capturing = false;
+        console.warn('Auto-capture sampling failed:', error);
+      }
+    };
+
+    setProgress(0);
+    const intervalId = setInterval(sampleFrame, AUTO_CAPTURE.sampleIntervalMs);
+    return () => {
+      cancelled = true;
+      clearInterval(intervalId);
+    };
+  }, [videoRef, enabled]);
+
+  return progress;
+}
@@ -0,0 +1,43 @@
+'use client';
+import { ACTIVE_CALIBRATION_STORAGE_KEY, CALIBRATIONS_STORAGE_KEY } from '@/constants/appConstants';
+import { Calibration } from '@/types';
+import { restoreCalibrations } from '@/utils/calibration';
+import { loadFromStorage, saveToStorage } from '@/utils/storageUtils';
+import { useCallback, useEffect, useState } from 'react';
+
+/**
+ * Calibration versions persisted in local storage, plus the one in use
+ *
+ * Every saved calibration is kept so results can always be traced back to
+ * the curves that produced them; the newest becomes active when saved.
+ * Malformed stored calibrations are dropped on load.
+ *
+ * @returns Calibrations, the active one, and save/select actions
+ */
+export function useCalibrations() {
+  const [calibrations, setCalibrations] = useState<Calibration[]>(() =>
+    restoreCalibrations(loadFromStorage<unknown>(CALIBRATIONS_STORAGE_KEY, []))
+  );
+  const [activeId, setActiveId] = useState<string | null>(() => loadFromStorage<string | null>(ACTIVE_CALIBRATION_STORAGE_KEY, null));
+  const activeCalibration = calibrations.find((calibration) => calibration.id === activeId) ?? null;
+  const nextVersion = calibrations.reduce((max, calibration) => Math.max(max, calibration.version), 0) + 1;
+
+  useEffect(() => {
+    saveToStorage(CALIBRATIONS_STORAGE_KEY, calibrations);
+  }, [calibrations]);
+
+  const selectCalibration = useCallback((id: string | null) => {
+    setActiveId(id);
+    saveToStorage(ACTIVE_CALIBRATION_STORAGE_KEY, id);
+  }, []);
+
+  const saveCalibration = useCallback(
+    (calibration: Calibration) => {
+      setCalibrations((prev) => [...prev, calibration]);
+      selectCalibration(calibration.id);
+    },
+    [selectCalibration]
+  );
+
+  return { calibrations, activeCalibration, nextVersion, saveCalibration, selectCalibration };
+}
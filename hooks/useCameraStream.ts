@@ -1,7 +1,18 @@
 'use client';
-import { videoConstraints } from '@/constants/appConstants';
+import { CAMERA_PREFERENCES_STORAGE_KEY, CAMERA_RESOLUTIONS, videoConstraints } from '@/constants/appConstants';
+import { AppliedCameraSettings, CameraDevice, CameraFeatureSupport, CameraPreferences, CameraResolution } from '@/types';
+import {
+  getCameraFeatureSupport,
+  getVideoTrack,
+  lockCameraSettings,
+  readAppliedSettings,
+  reapplyCameraSettings,
+  setCameraTorch,
+  unlockCameraSettings
+} from '@/utils/cameraSettingsUtils';
+import { loadFromStorage, saveToStorage } from '@/utils/storageUtils';
 import { applyVideoZoom, resetVideoZoom } from '@/utils/zoomUtils';
-import { RefObject, useEffect } from 'react';
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
 
 interface UseCameraStreamProps {
   videoRef: RefObject<HTMLVideoElement | null>;
@@ -9,13 +20,73 @@ interface UseCameraStreamProps {
   onStreamError: (message: string) => void;
 }
 
+export interface UseCameraStreamResult {
+  /** Video input devices currently known to the browser */
+  devices: CameraDevice[];
+  /** Persisted camera and resolution choice */
+  preferences: CameraPreferences;
+  /** Selects a camera by device ID, or null for the default rear-facing camera */
+  selectDevice: (deviceId: string | null) => void;
+  /** Selects the target capture resolution */
+  selectResolution: (resolution: CameraResolution) => void;
+  /** Lock and torch controls supported by the active camera */
+  featureSupport: CameraFeatureSupport;
+  /** Settings frozen by the last lock, kept and re-applied across stream restarts; null while the camera runs in auto mode */
+  lockedSettings: AppliedCameraSettings | null;
+  /** Freezes exposure, white balance and focus, or releases an existing lock */
+  toggleSettingsLock: () => Promise<void>;
+  /** Whether the torch is currently on */
+  torchOn: boolean;
+  /** Switches the torch on or off */
+  toggleTorch: () => Promise<void>;
+  /** Reads the settings in effect on the active camera, for sending with a capture */
+  getAppliedSettings: () => AppliedCameraSettings | null;
+}
+
+const DEFAULT_PREFERENCES: CameraPreferences = { deviceId: null, resolution: 'auto' };
+const NO_FEATURE_SUPPORT: CameraFeatureSupport = { lock: false, torch: false };
+
+/**
+ * Reads stored preferences, falling back to the defaults for anything stale or corrupted
+ * (e.g. a resolution removed from CAMERA_RESOLUTIONS) so it cannot break camera start-up
+ */
+const loadPreferences = (): CameraPreferences => {
+  const stored = loadFromStorage<Partial<Record<keyof CameraPreferences, unknown>> | null>(CAMERA_PREFERENCES_STORAGE_KEY, null);
+  const { deviceId, resolution } = stored ?? {};
+  const isValidResolution =
+    resolution === undefined || (typeof resolution === 'string' && Object.prototype.hasOwnProperty.call(CAMERA_RESOLUTIONS, resolution));
+  const isValidDeviceId = deviceId === undefined || deviceId === null || typeof deviceId === 'string';
+  if (!isValidResolution || !isValidDeviceId) return DEFAULT_PREFERENCES;
+  return {
+    deviceId: (deviceId as string | null | undefined) ?? DEFAULT_PREFERENCES.deviceId,
+    resolution: (resolution as CameraResolution | undefined) ?? DEFAULT_PREFERENCES.resolution
+  };
+};
+
+/**
+ * Builds getUserMedia constraints from the user's camera preferences.
+ * An explicit device replaces the default rear-facing camera request.
+ */
+const buildVideoConstraints = ({ deviceId, resolution }: CameraPreferences): MediaStreamConstraints => {
+  const { width, height } = CAMERA_RESOLUTIONS[resolution];
+  return {
+    video: {
+      ...(deviceId ? { deviceId: { exact: deviceId } } : videoConstraints.video),
+      ...(width && height ? { width: { ideal: width }, height: { ideal: height } } : {})
+    }
+  };
+};
+
 /**
  * Custom hook to manage camera stream with automatic zoom functionality
  *
  * @description
  * This hook handles:
  * - Camera initialization and cleanup
+ * - Camera device and resolution selection, persisted across sessions
+ * - Recovery when the selected camera is unplugged (`devicechange` / track `ended`)
  * - Automatic application of zoom (native API or CSS fallback)
+ * - Exposure/white balance/focus lock and torch control before capture
  * - Error handling for various camera access scenarios
  * - Stream lifecycle management based on enabled state
  *
@@ -23,25 +94,96 @@ interface UseCameraStreamProps {
  * @param {RefObject<HTMLVideoElement>} props.videoRef - Reference to the video element that will display the stream
  * @param {boolean} props.enabled - Whether the camera should be active. When false, any existing stream is stopped
  * @param {(message: string) => void} props.onStreamError - Callback for handling stream errors with user-friendly messages
+ * @returns {UseCameraStreamResult} Available devices and the current camera selection
  *
  * @example
  * ```tsx
  * const videoRef = useRef<HTMLVideoElement>(null);
- * useCameraStream({
+ * const { devices, preferences, selectDevice } = useCameraStream({
  *   videoRef,
  *   enabled: !isCapturing && !isAnalyzing,
  *   onStreamError: (error) => setErrorMessage(error)
  * });
  * ```
  */
-export function useCameraStream({ videoRef, enabled, onStreamError }: UseCameraStreamProps) {
+export function useCameraStream({ videoRef, enabled, onStreamError }: UseCameraStreamProps): UseCameraStreamResult {
+  const [devices, setDevices] = useState<CameraDevice[]>([]);
+  const [preferences, setPreferences] = useState<CameraPreferences>(loadPreferences);
+  // Bumped to force a stream restart, e.g. after the active track ends
+  const [restartToken, setRestartToken] = useState(0);
+  const [featureSupport, setFeatureSupport] = useState<CameraFeatureSupport>(NO_FEATURE_SUPPORT);
+  const [lockedSettings, setLockedSettings] = useState<AppliedCameraSettings | null>(null);
+  const [torchOn, setTorchOn] = useState(false);
+  // Read when a stream starts, so a lock survives the stream stopping for capture or Retake
+  const lockedSettingsRef = useRef<AppliedCameraSettings | null>(null);
+
+  const updatePreferences = useCallback((changes: Partial<CameraPreferences>) => {
+    setPreferences((prev) => ({ ...prev, ...changes }));
+  }, []);
+
+  // Persisted outside the state updater, which must stay free of side effects
+  useEffect(() => {
+    saveToStorage(CAMERA_PREFERENCES_STORAGE_KEY, preferences);
+  }, [preferences]);
+
+  // A lock holds values of one camera; another camera starts in auto mode
+  const selectDevice = useCallback(
+    (deviceId: string | null) => {
+      setLockedSettings(null);
+      updatePreferences({ deviceId });
+    },
+    [updatePreferences]
+  );
+  const selectResolution = useCallback((resolution: CameraResolution) => updatePreferences({ resolution }), [updatePreferences]);
+
+  const refreshDevices = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+
+    try {
+      const allDevices = await navigator.mediaDevices.enumerateDevices();
+      const videoInputs = allDevices
+        .filter((device) => device.kind === 'videoinput')
+        .map((device, index) => ({ deviceId: device.deviceId, label: device.label || `Camera ${index + 1}` }));
+      setDevices(videoInputs);
+
+      // Device IDs are only exposed after permission is granted, so only treat a
+      // missing ID as "unplugged" when the list actually contains real IDs
+      const idsKnown = videoInputs.some((device) => device.deviceId);
+      if (idsKnown && preferences.deviceId && !videoInputs.some((device) => device.deviceId === preferences.deviceId)) {
+        setLockedSettings(null);
+        updatePreferences({ deviceId: null });
+        onStreamError('Selected camera was disconnected. Switched to the default camera.');
+      }
+    } catch (err) {
+      console.error('Failed to enumerate camera devices:', err);
+    }
+  }, [preferences.deviceId, updatePreferences, onStreamError]);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices) return;
+
+    refreshDevices();
+    navigator.mediaDevices.addEventListener('devicechange', refreshDevices);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refreshDevices);
+  }, [refreshDevices]);
+
+  useEffect(() => {
+    lockedSettingsRef.current = lockedSettings;
+  }, [lockedSettings]);
+
   useEffect(() => {
     if (!videoRef) return;
 
     let stream: MediaStream | null = null;
+    let cancelled = false;
     // Capture the current video element to use in cleanup
     const videoElement = videoRef.current;
 
+    const handleTrackEnded = () => {
+      // The camera went away underneath us (unplugged, revoked); restart with current preferences
+      if (!cancelled) setRestartToken((token) => token + 1);
+    };
+
     const initCamera = async () => {
       if (!videoElement) return;
 
@@ -59,9 +201,17 @@ export function useCameraStream({ videoRef, enabled, onStreamError }: UseCameraS
       if (videoElement.srcObject) return;
 
       try {
-        stream = await navigator.mediaDevices.getUserMedia(videoConstraints);
+        stream = await navigator.mediaDevices.getUserMedia(
+          buildVideoConstraints({ deviceId: preferences.deviceId, resolution: preferences.resolution })
+        );
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+
         // Check if component is still mounted and video element still exists
         if (videoRef.current && videoRef.current === videoElement) {
+          stream.getVideoTracks().forEach((track) => track.addEventListener('ended', handleTrackEnded));
           videoElement.srcObject = stream;
           await videoElement.play().catch((err) => {
             console.error('Error playing video stream:', err);
@@ -70,9 +220,39 @@ export function useCameraStream({ videoRef, enabled, onStreamError }: UseCameraS
 
           // Apply zoom using the shared utility
           await applyVideoZoom(videoElement);
+          const track = getVideoTrack(videoElement);
+          setFeatureSupport(getCameraFeatureSupport(track));
+
+          // Pin the new track to the locked values so every strip is captured alike
+          const locked = lockedSettingsRef.current;
+          if (track && locked) {
+            try {
+              const reapplied = await reapplyCameraSettings(track, locked);
+              if (!cancelled) setLockedSettings(reapplied);
+            } catch (err) {
+              console.error('Camera settings re-lock error:', err);
+              if (!cancelled) {
+                setLockedSettings(null);
+                onStreamError('Could not restore the exposure lock. Lock the camera again before capturing.');
+              }
+            }
+          }
+
+          // Labels and device IDs become available once permission is granted
+          refreshDevices();
         }
       } catch (err) {
         console.error('Camera initialization error:', err);
+        if (cancelled) return;
+
+        // A remembered camera that can no longer be opened falls back to the default camera
+        if (preferences.deviceId && err instanceof Error && (err.name === 'OverconstrainedError' || err.name === 'NotFoundError')) {
+          setLockedSettings(null);
+          updatePreferences({ deviceId: null });
+          onStreamError('Selected camera is unavailable. Switched to the default camera.');
+          return;
+        }
+
         let message = 'Camera access denied or unavailable. Please check permissions.';
         if (err instanceof Error && err.name === 'NotFoundError') {
           message = 'No camera found. Please ensure a camera is connected and enabled.';
@@ -86,8 +266,16 @@ export function useCameraStream({ videoRef, enabled, onStreamError }: UseCameraS
     initCamera();
 
     return () => {
+      cancelled = true;
+      // A new track starts with the torch off; the lock is kept and re-applied once it starts
+      setFeatureSupport(NO_FEATURE_SUPPORT);
+      setTorchOn(false);
+
       // Clean up stream
-      stream?.getTracks().forEach((track) => track.stop());
+      stream?.getTracks().forEach((track) => {
+        track.removeEventListener('ended', handleTrackEnded);
+        track.stop();
+      });
 
       // Use the captured video element reference
       if (videoElement) {
@@ -96,5 +284,53 @@ export function useCameraStream({ videoRef, enabled, onStreamError }: UseCameraS
         resetVideoZoom(videoElement);
       }
     };
-  }, [enabled, videoRef, onStreamError]);
+  }, [enabled, videoRef, onStreamError, preferences.deviceId, preferences.resolution, restartToken, updatePreferences, refreshDevices]);
+
+  const toggleSettingsLock = useCallback(async () => {
+    const track = getVideoTrack(videoRef.current);
+    if (!track) return;
+
+    try {
+      if (lockedSettings) {
+        await unlockCameraSettings(track);
+        setLockedSettings(null);
+      } else {
+        setLockedSettings(await lockCameraSettings(track));
+      }
+    } catch (err) {
+      console.error('Camera settings lock error:', err);
+      onStreamError(err instanceof Error ? err.message : 'Could not change camera exposure lock.');
+    }
+  }, [videoRef, lockedSettings, onStreamError]);
+
+  const toggleTorch = useCallback(async () => {
+    const track = getVideoTrack(videoRef.current);
+    if (!track) return;
+
+    try {
+      await setCameraTorch(track, !torchOn);
+      setTorchOn(!torchOn);
+    } catch (err) {
+      console.error('Torch error:', err);
+      onStreamError('Could not switch the torch.');
+    }
+  }, [videoRef, torchOn, onStreamError]);
+
+  const getAppliedSettings = useCallback(() => {
+    const track = getVideoTrack(videoRef.current);
+    return track ? readAppliedSettings(track, lockedSettings !== null) : null;
+  }, [videoRef, lockedSettings]);
+
+  return {
+    devices,
+    preferences,
+    selectDevice,
+    selectResolution,
+    featureSupport,
+    lockedSettings,
+    toggleSettingsLock,
+    torchOn,
+    toggleTorch,
+    getAppliedSettings
+  };
 }
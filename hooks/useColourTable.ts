@@ -0,0 +1,48 @@
+'use client';
+import { COLOUR_TABLE_STORAGE_KEY } from '@/constants/appConstants';
+import { fetchColourTable } from '@/services/colourTableService';
+import { ColourTable } from '@/types';
+import { parseColourTable } from '@/utils/colourTable';
+import { loadFromStorage, saveToStorage } from '@/utils/storageUtils';
+import { useEffect, useState } from 'react';
+
+// Stored tables are revalidated, so a corrupted entry is dropped rather than used
+const loadStoredColourTable = (): ColourTable | null => {
+  const stored = loadFromStorage<unknown>(COLOUR_TABLE_STORAGE_KEY, null);
+  if (!stored) return null;
+  try {
+    return parseColourTable(stored);
+  } catch (error) {
+    console.warn('Ignoring stored colour table:', error);
+    return null;
+  }
+};
+
+/**
+ * Colour table for on-device estimates, kept on the device for offline use
+ *
+ * Starts with the stored copy and downloads the backend's current table
+ * while it is reachable; a failed download keeps the stored copy.
+ *
+ * @returns The table, or null when none has been downloaded yet
+ */
+export function useColourTable(): ColourTable | null {
+  const [colourTable, setColourTable] = useState<ColourTable | null>(loadStoredColourTable);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchColourTable(controller.signal)
+      .then((table) => {
+        if (!table) return;
+        setColourTable(table);
+        saveToStorage(COLOUR_TABLE_STORAGE_KEY, table);
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) console.warn('Using stored colour table, download failed:', error);
+      });
+
+    return () => controller.abort();
+  }, []);
+
+  return colourTable;
+}
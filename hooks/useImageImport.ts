@@ -0,0 +1,96 @@
+'use client';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+
+interface UseImageImportProps {
+  enabled: boolean; // Accept drops and pastes only while a new image can be taken
+  onImport: (file: File) => void;
+}
+
+export interface UseImageImportResult {
+  /** True while an image is being dragged over the drop zone */
+  isDragActive: boolean;
+  /** Handlers to spread onto the element that acts as the drop zone */
+  dropZoneProps: {
+    onDragEnter: (event: React.DragEvent) => void;
+    onDragOver: (event: React.DragEvent) => void;
+    onDragLeave: (event: React.DragEvent) => void;
+    onDrop: (event: React.DragEvent) => void;
+  };
+}
+
+const findImageFile = (items: DataTransferItemList | null | undefined): File | null => {
+  for (const item of Array.from(items ?? [])) {
+    if (item.kind === 'file' && item.type.startsWith('image/')) {
+      return item.getAsFile();
+    }
+  }
+  return null;
+};
+
+/**
+ * Accepts images dropped onto a drop zone or pasted from the clipboard
+ *
+ * Paste is handled document-wide so Ctrl+V works without focusing anything.
+ *
+ * @param {UseImageImportProps} props - Hook configuration
+ * @returns {UseImageImportResult} Drag state and drop zone handlers
+ */
+export function useImageImport({ enabled, onImport }: UseImageImportProps): UseImageImportResult {
+  const [isDragActive, setIsDragActive] = useState(false);
+  // Nested children fire enter/leave pairs, so track depth instead of a flag
+  const dragDepth = useRef(0);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handlePaste = (event: ClipboardEvent) => {
+      const file = findImageFile(event.clipboardData?.items);
+      if (file) {
+        event.preventDefault();
+        onImport(file);
+      }
+    };
+
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [enabled, onImport]);
+
+  const onDragEnter = useCallback(
+    (event: React.DragEvent) => {
+      if (!enabled || !event.dataTransfer.types.includes('Files')) return;
+      event.preventDefault();
+      dragDepth.current++;
+      setIsDragActive(true);
+    },
+    [enabled]
+  );
+
+  const onDragOver = useCallback(
+    (event: React.DragEvent) => {
+      if (!enabled) return;
+      event.preventDefault();
+      event.dataTransfer.dropEffect = 'copy';
+    },
+    [enabled]
+  );
+
+  const onDragLeave = useCallback(() => {
+    dragDepth.current = Math.max(0, dragDepth.current - 1);
+    if (dragDepth.current === 0) setIsDragActive(false);
+  }, []);
+
+  const onDrop = useCallback(
+    (event: React.DragEvent) => {
+      if (!enabled) return;
+      event.preventDefault();
+      dragDepth.current = 0;
+      setIsDragActive(false);
+
+      const file = findImageFile(event.dataTransfer.items) ?? event.dataTransfer.files[0] ?? null;
+      if (file) onImport(file);
+    },
+    [enabled, onImport]
+  );
+
+  return { isDragActive, dropZoneProps: { onDragEnter, onDragOver, onDragLeave, onDrop } };
+}
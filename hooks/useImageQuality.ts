@@ -0,0 +1,52 @@
+'use client';
+import { IMAGE_QUALITY_GATE } from '@/constants/appConstants';
+import { ImageQualityReport } from '@/types';
+import { analyzeImageQuality } from '@/utils/imageQuality';
+import { extractZoomedFrame } from '@/utils/zoomUtils';
+import { RefObject, useEffect, useState } from 'react';
+
+interface UseImageQualityProps {
+  videoRef: RefObject<HTMLVideoElement | null>;
+  enabled: boolean; // Only sample while the live view is visible
+}
+
+/**
+ * Periodically scores the live camera frame for the pre-capture quality gate
+ *
+ * Frames are downscaled to IMAGE_QUALITY_GATE.analysisSize before analysis,
+ * which keeps the check cheap enough to run continuously on phones.
+ *
+ * @param {UseImageQualityProps} props - Hook configuration
+ * @returns {ImageQualityReport | null} Latest report, or null while no frame is available
+ */
+export function useImageQuality({ videoRef, enabled }: UseImageQualityProps): ImageQualityReport | null {
+  const [report, setReport] = useState<ImageQualityReport | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      setReport(null);
+      return;
+    }
+
+    let cancelled = false;
+    const checkFrame = async () => {
+      const video = videoRef.current;
+      if (!video?.readyState || video.videoWidth === 0) return;
+
+      try {
+        const frame = (await extractZoomedFrame(video, 'imageData', { maxDimension: IMAGE_QUALITY_GATE.analysisSize })) as ImageData;
+        if (!cancelled) setReport(analyzeImageQuality(frame));
+      } catch (error) {
+        console.warn('Live quality check failed:', error);
+      }
+    };
+
+    const intervalId = setInterval(checkFrame, IMAGE_QUALITY_GATE.liveCheckIntervalMs);
+    return () => {
+      cancelled = true;
+      clearInterval(intervalId);
+    };
+  }, [videoRef, enabled]);
+
+  return report;
+}
@@ -0,0 +1,46 @@
+'use client';
+import { LOUPE } from '@/constants/appConstants';
+import { SampledColor, SamplingRegion } from '@/types';
+import { sampleRegionColor } from '@/utils/colorUtils';
+import { loadImageData } from '@/utils/imageDataUtils';
+import { useEffect, useState } from 'react';
+
+export interface ImageSampler {
+  canvas: HTMLCanvasElement; // Downscaled copy of the image, drawn by the loupe
+  sample: (x: number, y: number, region: SamplingRegion) => SampledColor | null; // Normalized coordinates
+}
+
+/**
+ * Decodes the captured image once for the loupe and colour sampling
+ *
+ * @param imageDataUrl - Captured image, or null when none is shown
+ * @returns Sampler for the image, or null while decoding or without an image
+ */
+export function useImageSampler(imageDataUrl: string | null): ImageSampler | null {
+  const [sampler, setSampler] = useState<ImageSampler | null>(null);
+
+  useEffect(() => {
+    setSampler(null);
+    if (!imageDataUrl) return;
+
+    let cancelled = false;
+    loadImageData(imageDataUrl, LOUPE.analysisSize)
+      .then((imageData) => {
+        if (cancelled) return;
+
+        const canvas = document.createElement('canvas');
+        canvas.width = imageData.width;
+        canvas.height = imageData.height;
+        canvas.getContext('2d')?.putImageData(imageData, 0, 0);
+
+        setSampler({ canvas, sample: (x, y, region) => sampleRegionColor(imageData, x, y, region) });
+      })
+      .catch((error) => console.warn('Failed to prepare image for colour sampling:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageDataUrl]);
+
+  return sampler;
+}
@@ -0,0 +1,34 @@
+'use client';
+import { ImageSize } from '@/types';
+import { useEffect, useState } from 'react';
+
+/**
+ * Intrinsic pixel size of an image, which the display box and overlay are laid out from
+ *
+ * @param imageDataUrl - Captured image, or null when none is shown
+ * @returns Image size, or null while decoding or without an image
+ */
+export function useImageSize(imageDataUrl: string | null): ImageSize | null {
+  const [size, setSize] = useState<ImageSize | null>(null);
+
+  useEffect(() => {
+    setSize(null);
+    if (!imageDataUrl) return;
+
+    let cancelled = false;
+    const image = new Image();
+    image.src = imageDataUrl;
+    image
+      .decode()
+      .then(() => {
+        if (!cancelled) setSize({ width: image.naturalWidth, height: image.naturalHeight });
+      })
+      .catch((error) => console.warn('Failed to read captured image size:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageDataUrl]);
+
+  return size;
+}
@@ -0,0 +1,70 @@
+'use client';
+import { STRIP_TEMPLATES_STORAGE_KEY } from '@/constants/appConstants';
+import { useTestTypes } from '@/contexts/TestTypeContext';
+import { PlacedCrosshair, StripTemplate } from '@/types';
+import { downloadTextFile } from '@/utils/downloadUtils';
+import { loadFromStorage, saveToStorage } from '@/utils/storageUtils';
+import { createTemplate, parseTemplates, restoreTemplates, serializeTemplates } from '@/utils/stripTemplates';
+import { useCallback, useEffect, useState } from 'react';
+
+/**
+ * Strip layout templates persisted in local storage
+ *
+ * Saving under an existing name replaces that template; imported templates
+ * replace stored ones with the same name, so re-importing a shared file
+ * updates layouts instead of duplicating them. Stored templates go through
+ * the same checks as imported ones.
+ *
+ * @returns Templates plus save, delete, import and export actions
+ */
+export function useStripTemplates() {
+  const testTypes = useTestTypes();
+  const [templates, setTemplates] = useState<StripTemplate[]>(() =>
+    restoreTemplates(loadFromStorage<unknown>(STRIP_TEMPLATES_STORAGE_KEY, []), testTypes)
+  );
+
+  useEffect(() => {
+    saveToStorage(STRIP_TEMPLATES_STORAGE_KEY, templates);
+  }, [templates]);
+
+  const mergeTemplates = useCallback(
+    (incoming: StripTemplate[]) =>
+      setTemplates((prev) => [
+        ...prev.filter((template) => !incoming.some((t) => t.name.toLowerCase() === template.name.toLowerCase())),
+        ...incoming
+      ]),
+    []
+  );
+
+  const saveTemplate = useCallback(
+    (name: string, crosshairs: PlacedCrosshair[]): StripTemplate => {
+      const template = createTemplate(name, crosshairs);
+      mergeTemplates([template]);
+      return template;
+    },
+    [mergeTemplates]
+  );
+
+  const deleteTemplate = useCallback((id: string) => setTemplates((prev) => prev.filter((template) => template.id !== id)), []);
+
+  /**
+   * Imports templates from an exported JSON file
+   *
+   * @returns Number of templates imported
+   * @throws Error when the file cannot be read or fails validation
+   */
+  const importTemplates = useCallback(
+    async (file: File): Promise<number> => {
+      const imported = parseTemplates(await file.text(), testTypes);
+      mergeTemplates(imported);
+      return imported.length;
+    },
+    [mergeTemplates, testTypes]
+  );
+
+  const exportTemplates = useCallback(() => {
+    downloadTextFile(`strip-templates-${new Date().toISOString().slice(0, 10)}.json`, serializeTemplates(templates));
+  }, [templates]);
+
+  return { templates, saveTemplate, deleteTemplate, importTemplates, exportTemplates };
+}
@@ -0,0 +1,73 @@
+'use client';
+import { UNDO_HISTORY_LIMIT } from '@/constants/appConstants';
+import { SetStateAction, useCallback, useState } from 'react';
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  group: string | null; // Group of the latest entry; further updates in the same group amend it
+}
+
+interface SetOptions {
+  // Consecutive updates with the same group form one undo step (e.g. every move of a drag)
+  group?: string;
+}
+
+/**
+ * useState with an undo/redo history
+ *
+ * @description
+ * Every update records the previous value, except consecutive updates
+ * sharing a group, which collapse into a single step until endGroup is
+ * called or an update outside the group happens. reset replaces the value
+ * and clears the history, for changes that should not be undoable (such
+ * as switching to a new image).
+ *
+ * @param initial - Initial value
+ * @param limit - Maximum number of undo steps kept
+ */
+export function useUndoableState<T>(initial: T, limit: number = UNDO_HISTORY_LIMIT) {
+  const [history, setHistory] = useState<History<T>>({ past: [], present: initial, future: [], group: null });
+
+  const setState = useCallback(
+    (update: SetStateAction<T>, { group }: SetOptions = {}) => {
+      setHistory((prev) => {
+        const next = typeof update === 'function' ? (update as (value: T) => T)(prev.present) : update;
+        if (Object.is(next, prev.present)) return prev;
+        if (group !== undefined && group === prev.group) return { ...prev, present: next };
+        return { past: [...prev.past, prev.present].slice(-limit), present: next, future: [], group: group ?? null };
+      });
+    },
+    [limit]
+  );
+
+  const undo = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.past.length === 0) return prev;
+      return { past: prev.past.slice(0, -1), present: prev.past[prev.past.length - 1], future: [prev.present, ...prev.future], group: null };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.future.length === 0) return prev;
+      return { past: [...prev.past, prev.present], present: prev.future[0], future: prev.future.slice(1), group: null };
+    });
+  }, []);
+
+  const reset = useCallback((value: T) => setHistory({ past: [], present: value, future: [], group: null }), []);
+
+  const endGroup = useCallback(() => setHistory((prev) => (prev.group === null ? prev : { ...prev, group: null })), []);
+
+  return {
+    state: history.present,
+    setState,
+    undo,
+    redo,
+    reset,
+    endGroup,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+}
@@ -0,0 +1,224 @@
+'use client';
+import { ZOOM_PAN } from '@/constants/appConstants';
+import { NormalizedPoint } from '@/types';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+
+export interface ZoomPanView {
+  scale: number;
+  x: number; // Translation in CSS pixels, applied with transform-origin at the top left
+  y: number;
+}
+
+interface UseZoomPanProps {
+  onTap: (point: NormalizedPoint) => void; // Single tap or click, in normalized image coordinates
+  mapPoint?: (clientX: number, clientY: number) => NormalizedPoint | null; // Maps onto content that does not fill the layer; null outside it
+}
+
+type Point = { x: number; y: number };
+
+interface GestureState {
+  start: Point; // Where the current single-pointer phase began, relative to the container
+  startView: ZoomPanView;
+  startDistance: number; // Pinch only
+  startMid: Point; // Pinch only
+  moved: boolean;
+  multiTouch: boolean;
+}
+
+const IDENTITY_VIEW: ZoomPanView = { scale: 1, x: 0, y: 0 };
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+const distance = (a: Point, b: Point): number => Math.hypot(a.x - b.x, a.y - b.y);
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+/**
+ * Pinch-zoom, double-tap zoom, wheel zoom and pan for an image container
+ *
+ * @description
+ * The view is a CSS transform for a content layer filling the container.
+ * Content coordinates stay normalized (0-1), so callers convert pointer
+ * positions with toNormalized and never see the zoom level. Single taps
+ * are reported after ZOOM_PAN.doubleTapMs so a double tap does not also
+ * place a point.
+ *
+ * @param {UseZoomPanProps} props - Hook configuration
+ */
+export function useZoomPan({ onTap, mapPoint }: UseZoomPanProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [view, setView] = useState<ZoomPanView>(IDENTITY_VIEW);
+  const viewRef = useRef<ZoomPanView>(IDENTITY_VIEW);
+  const pointers = useRef(new Map<number, Point>());
+  const gesture = useRef<GestureState | null>(null);
+  const lastTap = useRef<{ time: number; point: Point } | null>(null);
+  const tapTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Kept in a ref so a new callback identity does not invalidate the handlers
+  const onTapRef = useRef(onTap);
+  const mapPointRef = useRef(mapPoint);
+
+  useEffect(() => {
+    onTapRef.current = onTap;
+    mapPointRef.current = mapPoint;
+  }, [onTap, mapPoint]);
+
+  // Keeps the content covering the container at every scale
+  const applyView = useCallback((next: ZoomPanView) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const clamped = {
+      scale: next.scale,
+      x: clamp(next.x, rect.width * (1 - next.scale), 0),
+      y: clamp(next.y, rect.height * (1 - next.scale), 0)
+    };
+    viewRef.current = clamped;
+    setView(clamped);
+  }, []);
+
+  // Zooms so the content under `anchor` (in `from`) ends up under `target`
+  const zoomAt = useCallback(
+    (anchor: Point, scale: number, from: ZoomPanView = viewRef.current, target: Point = anchor) => {
+      const nextScale = clamp(scale, 1, ZOOM_PAN.maxScale);
+      const contentX = (anchor.x - from.x) / from.scale;
+      const contentY = (anchor.y - from.y) / from.scale;
+      applyView({ scale: nextScale, x: target.x - contentX * nextScale, y: target.y - contentY * nextScale });
+    },
+    [applyView]
+  );
+
+  const resetView = useCallback(() => applyView(IDENTITY_VIEW), [applyView]);
+
+  const toContainerPoint = (clientX: number, clientY: number): Point => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    return rect ? { x: clientX - rect.left, y: clientY - rect.top } : { x: 0, y: 0 };
+  };
+
+  /**
+   * Converts a viewport position to normalized image coordinates under the current zoom
+   *
+   * Returns null for positions outside the content mapped by mapPoint.
+   */
+  const toNormalized = useCallback((clientX: number, clientY: number): NormalizedPoint | null => {
+    if (mapPointRef.current) return mapPointRef.current(clientX, clientY);
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return { x: 0.5, y: 0.5 };
+    const { scale, x, y } = viewRef.current;
+    return {
+      x: clamp((clientX - rect.left - x) / (rect.width * scale), 0, 1),
+      y: clamp((clientY - rect.top - y) / (rect.height * scale), 0, 1)
+    };
+  }, []);
+
+  const handleTap = (clientX: number, clientY: number) => {
+    const point = toContainerPoint(clientX, clientY);
+    const now = performance.now();
+    const previous = lastTap.current;
+
+    if (previous && now - previous.time < ZOOM_PAN.doubleTapMs && distance(previous.point, point) < ZOOM_PAN.tapSlopPx * 3) {
+      if (tapTimer.current) clearTimeout(tapTimer.current);
+      lastTap.current = null;
+      if (viewRef.current.scale > 1) {
+        resetView();
+      } else {
+        zoomAt(point, ZOOM_PAN.doubleTapScale);
+      }
+      return;
+    }
+
+    // Resolve the position now, before any later zoom changes the mapping
+    const normalized = toNormalized(clientX, clientY);
+    lastTap.current = { time: now, point };
+    tapTimer.current = setTimeout(() => {
+      lastTap.current = null;
+      // Taps beside the content (e.g. in the letterbox) only count towards double-tap zoom
+      if (normalized) onTapRef.current(normalized);
+    }, ZOOM_PAN.doubleTapMs);
+  };
+
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toContainerPoint(e.clientX, e.clientY);
+    pointers.current.set(e.pointerId, point);
+
+    if (pointers.current.size === 1) {
+      gesture.current = { start: point, startView: viewRef.current, startDistance: 0, startMid: point, moved: false, multiTouch: false };
+    } else if (pointers.current.size === 2 && gesture.current) {
+      const [a, b] = [...pointers.current.values()];
+      Object.assign(gesture.current, {
+        startView: viewRef.current,
+        startDistance: distance(a, b),
+        startMid: midpoint(a, b),
+        multiTouch: true
+      });
+    }
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const current = gesture.current;
+    if (!current || !pointers.current.has(e.pointerId)) return;
+    const point = toContainerPoint(e.clientX, e.clientY);
+    pointers.current.set(e.pointerId, point);
+
+    if (pointers.current.size >= 2) {
+      const [a, b] = [...pointers.current.values()];
+      if (current.startDistance > 0) {
+        zoomAt(current.startMid, (current.startView.scale * distance(a, b)) / current.startDistance, current.startView, midpoint(a, b));
+      }
+      current.moved = true;
+      return;
+    }
+
+    const dx = point.x - current.start.x;
+    const dy = point.y - current.start.y;
+    if (!current.moved && Math.hypot(dx, dy) < ZOOM_PAN.tapSlopPx) return;
+    current.moved = true;
+    if (current.startView.scale > 1) {
+      applyView({ ...current.startView, x: current.startView.x + dx, y: current.startView.y + dy });
+    }
+  };
+
+  const onPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!pointers.current.delete(e.pointerId)) return;
+    const current = gesture.current;
+
+    if (pointers.current.size === 1 && current) {
+      // Continue as a pan with the remaining finger
+      current.start = [...pointers.current.values()][0];
+      current.startView = viewRef.current;
+    } else if (pointers.current.size === 0) {
+      gesture.current = null;
+      if (current && !current.moved && !current.multiTouch && e.type === 'pointerup') {
+        handleTap(e.clientX, e.clientY);
+      }
+    }
+  };
+
+  // Wheel zoom needs a non-passive listener to stop the page from scrolling
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      zoomAt({ x: e.clientX - rect.left, y: e.clientY - rect.top }, viewRef.current.scale * Math.exp(-e.deltaY * ZOOM_PAN.wheelSensitivity));
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [zoomAt]);
+
+  useEffect(
+    () => () => {
+      if (tapTimer.current) clearTimeout(tapTimer.current);
+    },
+    []
+  );
+
+  return {
+    containerRef,
+    view,
+    toNormalized,
+    resetView,
+    zoomHandlers: { onPointerDown, onPointerMove, onPointerUp, onPointerCancel: onPointerUp }
+  };
+}
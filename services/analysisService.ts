@@ -1,4 +1,7 @@
-import { ConcentrationResponse, PlacedCrosshair } from '@/types';
+import { ANALYSIS_REQUEST } from '@/constants/appConstants';
+import { AnalysisErrorKind, AppliedCameraSettings, Calibration, ConcentrationResponse, PlacedCrosshair, StripRectification } from '@/types';
+import { getFileExtension } from '@/utils/captureProfile';
+import { getSamplingRegion } from '@/utils/crosshairUtils';
 import { extractZoomedFrame } from '@/utils/zoomUtils';
 
 /**
@@ -19,12 +22,127 @@ export interface AnalysisRequestData {
   imageDataUrl: string;
   crosshairs: PlacedCrosshair[];
   videoElement?: HTMLVideoElement; // Added optional video element reference
+  cameraSettings?: AppliedCameraSettings | null; // Exposure/white balance/focus in effect at capture time
+  originalImageDataUrl?: string | null; // Unrectified capture, kept for audit when the strip was deskewed
+  rectification?: StripRectification | null; // Corners and output size used to deskew imageDataUrl
+  calibration?: Calibration | null; // Curves the client will apply to the results, kept for audit
+  signal?: AbortSignal; // Cancels the request, including a pending retry
+  onRetry?: (retry: AnalysisRetry) => void; // Called before waiting to retry, e.g. to show progress
+}
+
+export interface AnalysisRetry {
+  attempt: number; // Attempt about to be made, from 2
+  maxAttempts: number;
+  delayMs: number; // Wait before the attempt
+  reason: AnalysisErrorKind; // Failure that triggered the retry
 }
 
 export interface AnalysisServiceResponse {
   success: boolean;
   results?: ConcentrationResponse[];
   error?: string;
+  errorKind?: AnalysisErrorKind;
+}
+
+class AnalysisRequestError extends Error {
+  constructor(
+    readonly kind: AnalysisErrorKind,
+    message: string,
+    readonly retryable = false
+  ) {
+    super(message);
+    this.name = 'AnalysisRequestError';
+  }
+}
+
+const cancelledError = () => new AnalysisRequestError('cancelled', 'Analysis cancelled.');
+
+// Resolves after the delay, or rejects as cancelled as soon as the signal aborts
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(cancelledError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Makes one POST attempt with the per-attempt timeout, classifying failures
+ */
+async function postOnce(url: string, body: FormData, signal?: AbortSignal): Promise<Response> {
+  if (signal?.aborted) throw cancelledError();
+
+  // The attempt aborts on either the caller's signal or the timeout
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, ANALYSIS_REQUEST.timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  let response: Response;
+  try {
+    response = await fetch(url, { method: 'POST', body, signal: controller.signal });
+  } catch (fetchError) {
+    if (timedOut) {
+      throw new AnalysisRequestError('timeout', `The server did not respond within ${ANALYSIS_REQUEST.timeoutMs / 1000} seconds.`);
+    }
+    if (signal?.aborted) throw cancelledError();
+    console.warn('Analysis request could not reach the server:', fetchError);
+    throw new AnalysisRequestError('network', 'Could not reach the analysis server - check the connection and try again.', true);
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '');
+    const detail = `${response.status} ${response.statusText}${errorText ? ` - ${errorText}` : ''}`;
+    // 5xx are transient server faults worth retrying; 4xx mean this request was rejected
+    if (response.status >= 500) {
+      throw new AnalysisRequestError('server', `The server could not process the request (${detail})`, true);
+    }
+    throw new AnalysisRequestError('rejected', `The server rejected the request (${detail})`);
+  }
+
+  return response;
+}
+
+/**
+ * POSTs with exponential backoff on network errors and 5xx responses
+ *
+ * @throws AnalysisRequestError from the last attempt, or as cancelled when the signal aborts
+ */
+async function postWithRetry(
+  url: string,
+  body: FormData,
+  signal: AbortSignal | undefined,
+  onRetry: ((retry: AnalysisRetry) => void) | undefined
+): Promise<Response> {
+  const { maxAttempts, initialBackoffMs, backoffMultiplier, maxBackoffMs } = ANALYSIS_REQUEST;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await postOnce(url, body, signal);
+    } catch (error) {
+      if (!(error instanceof AnalysisRequestError) || !error.retryable || attempt >= maxAttempts) throw error;
+
+      const delayMs = Math.min(maxBackoffMs, initialBackoffMs * backoffMultiplier ** (attempt - 1));
+      onRetry?.({ attempt: attempt + 1, maxAttempts, delayMs, reason: error.kind });
+      await wait(delayMs, signal);
+    }
+  }
 }
 
 /**
@@ -34,16 +152,36 @@ export interface AnalysisServiceResponse {
  * with frontend crosshair positions in the results modal.
  *
  * Quality requirements:
- * - Image: 95% JPEG quality for accurate color analysis
- * - Zoom: Consistent 2.5x magnification
- * - Points: Precise coordinates for color sampling areas
+ * - Image: encoded per CAPTURE_PROFILE (lossless by default) for accurate color analysis
+ * - Zoom: Consistent magnification from the capture profile
+ * - Points: Precise coordinates and sampling region (circle or rectangle) per point
  *
  * @param data.imageDataUrl - High-quality base64 image of test strip
  * @param data.crosshairs - Analysis points with preserved IDs
  * @param data.videoElement - Optional: extract fresh frame instead
+ * @param data.cameraSettings - Optional: camera settings reported with the capture
+ * @param data.originalImageDataUrl - Optional: original image when imageDataUrl is a deskewed copy
+ * @param data.rectification - Optional: perspective correction applied to the original
+ * @param data.calibration - Optional: calibration applied to the returned concentrations
+ * @param data.signal - Optional: cancels the request and any pending retry
+ * @param data.onRetry - Optional: notified before each retry
+ * Network errors and 5xx responses are retried with exponential backoff
+ * (ANALYSIS_REQUEST); failures report an errorKind so callers can tell
+ * timeouts, unreachable servers, rejections and bad responses apart.
+ *
  * @returns Promise resolving to concentration results with point correlation
  */
-export async function sendAnalysisData({ imageDataUrl, crosshairs, videoElement }: AnalysisRequestData): Promise<AnalysisServiceResponse> {
+export async function sendAnalysisData({
+  imageDataUrl,
+  crosshairs,
+  videoElement,
+  cameraSettings,
+  originalImageDataUrl,
+  rectification,
+  calibration,
+  signal,
+  onRetry
+}: AnalysisRequestData): Promise<AnalysisServiceResponse> {
   const formData = new FormData();
   try {
     // Only validate external data URL format
@@ -55,7 +193,7 @@ export async function sendAnalysisData({ imageDataUrl, crosshairs, videoElement
     let photoBlob: Blob;
 
     if (videoElement) {
-      photoBlob = (await extractZoomedFrame(videoElement, 'blob', 0.95)) as Blob;
+      photoBlob = (await extractZoomedFrame(videoElement, 'blob')) as Blob;
     } else {
       const response = await fetch(imageDataUrl);
       if (!response.ok) {
@@ -68,7 +206,9 @@ export async function sendAnalysisData({ imageDataUrl, crosshairs, videoElement
       throw new Error('Failed to create image blob');
     }
 
-    formData.append('photo.jpeg', photoBlob, 'photo.jpeg');
+    // Part name and MIME type follow the actual encoding (the browser may fall back to PNG)
+    const photoFileName = `photo.${getFileExtension(photoBlob.type)}`;
+    formData.append(photoFileName, photoBlob, photoFileName);
 
     // CRITICAL: Preserve point IDs for result correlation in frontend
     // Backend needs these IDs to match concentration results to crosshair positions
@@ -77,45 +217,53 @@ export async function sendAnalysisData({ imageDataUrl, crosshairs, videoElement
       x: ch.x, // Normalized coordinates (0-1)
       y: ch.y,
       testType: ch.testType,
-      pointIndex: ch.pointIndex // Sequential numbering
+      pointIndex: ch.pointIndex, // Sequential numbering
+      region: getSamplingRegion(ch), // Circle radius / rect size relative to the image, as drawn on screen
+      sampledColor: ch.sampledColor, // On-device readout, for auditing against the backend's sampling
+      knownConcentration: ch.knownConcentration, // Set on calibration standards only
+      replicateGroup: ch.replicateGroup // Points of one test type sharing a group read the same pad
     }));
     formData.append('points.json', new Blob([JSON.stringify(crosshairsData)], { type: 'application/json' }), 'points.json');
 
+    // Lets the backend tell locked, comparable captures apart from auto-exposed ones
+    if (cameraSettings) {
+      formData.append('camera.json', new Blob([JSON.stringify(cameraSettings)], { type: 'application/json' }), 'camera.json');
+    }
+
+    // Points refer to the rectified photo; the original and the warp are kept for audit
+    if (rectification && originalImageDataUrl) {
+      if (!isValidDataUrl(originalImageDataUrl)) {
+        throw new Error('Invalid original image data URL format');
+      }
+      const originalBlob = await (await fetch(originalImageDataUrl)).blob();
+      const originalFileName = `original.${getFileExtension(originalBlob.type)}`;
+      formData.append(originalFileName, originalBlob, originalFileName);
+      formData.append('rectification.json', new Blob([JSON.stringify(rectification)], { type: 'application/json' }), 'rectification.json');
+    }
+
+    // Results are reported uncalibrated; the curves record how the client will correct them
+    if (calibration) {
+      formData.append('calibration.json', new Blob([JSON.stringify(calibration)], { type: 'application/json' }), 'calibration.json');
+    }
+
     const apiUrl = process.env.NEXT_PUBLIC_API_URL;
     if (!apiUrl) {
       console.error('API URL (NEXT_PUBLIC_API_URL) is not configured in environment variables.');
-      return { success: false, error: 'Client configuration error: API URL is missing.' };
+      return { success: false, error: 'Client configuration error: API URL is missing.', errorKind: 'client' };
     }
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
+    const response = await postWithRetry(`${apiUrl}/process`, formData, signal, onRetry);
 
-    let response: Response;
+    let responseData: { results?: unknown };
     try {
-      response = await fetch(`${apiUrl}/process`, {
-        method: 'POST',
-        body: formData,
-        signal: controller.signal
-      });
-      clearTimeout(timeoutId);
-    } catch (fetchError) {
-      clearTimeout(timeoutId);
-      if (fetchError instanceof Error && fetchError.name === 'AbortError') {
-        throw new Error('Request timed out - please try again');
-      }
-      throw fetchError;
-    }
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Server error: ${response.status} ${response.statusText}${errorText ? ` - ${errorText}` : ''}`);
+      responseData = await response.json();
+    } catch {
+      throw new AnalysisRequestError('invalid-response', 'The server sent a response that is not valid JSON.');
     }
 
-    const responseData = await response.json();
-
     // Basic response validation
     if (!responseData?.results || !Array.isArray(responseData.results)) {
-      throw new Error('Invalid response format from server');
+      throw new AnalysisRequestError('invalid-response', 'Invalid response format from server.');
     }
 
     // Validate concentration results have required fields
@@ -131,11 +279,14 @@ export async function sendAnalysisData({ imageDataUrl, crosshairs, videoElement
     });
 
     if (validResults.length === 0) {
-      throw new Error('No valid concentration results received from server');
+      throw new AnalysisRequestError('invalid-response', 'No valid concentration results received from server.');
     }
 
     return { success: true, results: validResults };
   } catch (error) {
+    if (error instanceof AnalysisRequestError && error.kind === 'cancelled') {
+      return { success: false, error: error.message, errorKind: 'cancelled' };
+    }
     console.error('Error in sendAnalysisData:', error);
 
     let errorMessage = 'An unknown error occurred.';
@@ -148,7 +299,8 @@ export async function sendAnalysisData({ imageDataUrl, crosshairs, videoElement
 
     return {
       success: false,
-      error: errorMessage
+      error: errorMessage,
+      errorKind: error instanceof AnalysisRequestError ? error.kind : 'client'
     };
   }
 }
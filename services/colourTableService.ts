@@ -0,0 +1,28 @@
+import { ColourTable } from '@/types';
+import { parseColourTable } from '@/utils/colourTable';
+
+/**
+ * Colour table service
+ *
+ * The backend's `/colour-table` endpoint serves the colour-to-concentration
+ * table used for on-device estimates while the backend is unreachable.
+ */
+
+/**
+ * Downloads the current colour table from the backend
+ *
+ * @param signal - Optional: aborts the request, e.g. on unmount
+ * @returns Validated table stamped with the download time, or null when no backend is configured
+ * @throws Error when the request fails or the table is invalid
+ */
+export async function fetchColourTable(signal?: AbortSignal): Promise<ColourTable | null> {
+  const apiUrl = process.env.NEXT_PUBLIC_API_URL;
+  if (!apiUrl) return null;
+
+  const response = await fetch(`${apiUrl}/colour-table`, { signal });
+  if (!response.ok) {
+    throw new Error(`Server error: ${response.status} ${response.statusText}`);
+  }
+
+  return parseColourTable(await response.json(), new Date().toISOString());
+}
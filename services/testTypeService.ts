@@ -0,0 +1,33 @@
+import { TestTypeDefinition } from '@/types';
+import { parseTestTypes } from '@/utils/testTypeRegistry';
+
+/**
+ * Test-type registry service
+ *
+ * Deployments can serve their own analytes from the backend's `/test-types`
+ * endpoint; without one the bundled constants/testTypes.json is used.
+ *
+ * Reference ranges depend on the strip lot and the lab, so the bundled
+ * registry ships none. Low/normal/high remarks for on-device estimates and
+ * calibrated results need the ranges from `/test-types`; without them those
+ * results are reported as unclassified or with pre-calibration remarks.
+ */
+
+/**
+ * Fetches the test-type registry from the backend
+ *
+ * @param signal - Optional: aborts the request, e.g. on unmount
+ * @returns Validated definitions, or null when no backend is configured
+ * @throws Error when the request fails or the registry is invalid
+ */
+export async function fetchTestTypes(signal?: AbortSignal): Promise<TestTypeDefinition[] | null> {
+  const apiUrl = process.env.NEXT_PUBLIC_API_URL;
+  if (!apiUrl) return null;
+
+  const response = await fetch(`${apiUrl}/test-types`, { signal });
+  if (!response.ok) {
+    throw new Error(`Server error: ${response.status} ${response.statusText}`);
+  }
+
+  return parseTestTypes(await response.json());
+}
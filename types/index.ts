@@ -1,4 +1,63 @@
-export type TestType = 'CREATININE' | 'ALB' | 'ALP' | 'WHITE';
+// ID of an entry in the test-type registry, e.g. 'ALB' or 'WHITE'
+export type TestType = string;
+
+// Concentration bounds considered normal, in the test type's reported unit
+export interface ReferenceRange {
+  low: number;
+  high: number;
+}
+
+// Display unit system for concentrations: the backend's reported units, or their SI equivalents
+export type UnitSystem = 'conventional' | 'si';
+
+// Alternative unit for a test type; a value in `unit` is the reported value times `factor`
+export interface UnitConversion {
+  unit: string;
+  factor: number;
+}
+
+// Registry entry describing one analyte or reference pad, loaded from config or the backend
+export interface TestTypeDefinition {
+  id: TestType;
+  name: string; // Display name in pickers, labels and results
+  color: string; // Hex colour for markers and badges, e.g. '#16a34a'
+  unit: string | null; // Unit the backend reports concentrations in; null for reference points
+  siUnit: UnitConversion | null; // SI equivalent of `unit`; null when `unit` already is SI or there is none
+  referenceRange: ReferenceRange | null;
+  isReference: boolean; // Calibration point rather than an analyte; exactly one per capture
+}
+
+// Band of a derived metric's value, e.g. KDIGO albuminuria category A2
+export interface DerivedMetricCategory {
+  label: string;
+  description: string;
+  max: number | null; // Upper bound in the metric's unit; null for the open-ended top band
+  maxInclusive?: boolean; // Whether a value equal to `max` falls in this band
+}
+
+// Ratio of two analytes' concentrations, e.g. albumin-to-creatinine (ACR)
+export interface DerivedMetricDefinition {
+  id: string;
+  name: string;
+  numerator: TestType;
+  denominator: TestType;
+  factor: number; // Multiplies numerator / denominator to give `unit`, e.g. 1000 for mg/dL ÷ mg/dL to mg/g
+  unit: string;
+  siUnit: UnitConversion | null;
+  categories: DerivedMetricCategory[]; // Ascending; empty when the metric is not categorised
+}
+
+// Why a derived metric has no value: an input was not placed, not measured, or the denominator was zero
+export type DerivedMetricStatus = 'ok' | 'missing' | 'unmeasured' | 'invalid';
+
+export interface DerivedMetricResult {
+  definition: DerivedMetricDefinition;
+  status: DerivedMetricStatus;
+  value: number | null; // In the definition's unit
+  category: DerivedMetricCategory | null;
+  note: string | null; // Explains a missing value, e.g. "Creatinine was not measured"
+  provisional: boolean; // Computed from provisional on-device estimates
+}
 
 export interface PlacedCrosshair {
   id: string;
@@ -6,17 +65,260 @@ export interface PlacedCrosshair {
   y: number; // Relative Y (0 to 1)
   testType: TestType;
   pointIndex: number; // 1-based index
+  region?: SamplingRegion; // Area sampled around the point; DEFAULT_SAMPLING_REGION when unset
+  sampledColor?: SampledColor; // On-device colour of the sampling region, for review
+  knownConcentration?: number; // Calibration runs only: concentration of the standard, in the reported unit
+  replicateGroup?: number; // Points of the same test type sharing a group are replicate readings of one pad
 }
 
+// Sampling area centred on a point. Sizes are relative: widths to the image width, heights and radii to the image height
+export type SamplingRegion = { shape: 'circle'; radius: number } | { shape: 'rect'; width: number; height: number };
+
 export interface ConcentrationResponse {
   pointIndex: number;
   test_type: TestType;
   concentration: number;
-  remarks: 'none' | 'low' | 'normal' | 'high';
+  remarks: 'none' | 'low' | 'normal' | 'high' | 'unclassified'; // 'unclassified': measured, but the test type has no reference range
+  rawConcentration?: number; // Backend value before the calibration curve was applied
+  calibrationVersion?: number; // Calibration applied to `concentration`, if any
+  remarksPreCalibration?: boolean; // `remarks` still describe rawConcentration: no reference range to reclassify the calibrated value
+  provisional?: boolean; // On-device estimate made while the backend was unreachable; confirm with the server
+  colourTableVersion?: string; // Colour table the provisional estimate was read from
 }
 
 // Props for ResultsModal component
 export interface ResultsModalProps {
   results: ConcentrationResponse[];
+  calibration?: Calibration | null; // Calibration the results were adjusted with
+  replicateSummaries?: ReplicateSummary[]; // Aggregates for replicate groups, when any were placed
+  derivedMetrics?: DerivedMetricResult[]; // Ratios whose inputs are part of the analysis
   onClose: () => void;
 }
+
+export type CameraResolution = 'auto' | 'hd' | 'fullHd' | 'uhd';
+
+export interface CameraPreferences {
+  deviceId: string | null; // null = let the browser pick a rear-facing camera
+  resolution: CameraResolution;
+}
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+export type ZoomMode = 'native' | 'css';
+
+// Image Capture extensions to the track capability/constraint types (not yet in lib.dom)
+export interface MediaSettingsRange {
+  min: number;
+  max: number;
+  step?: number;
+}
+
+export interface ExtendedTrackCapabilities extends MediaTrackCapabilities {
+  zoom?: MediaSettingsRange;
+  exposureMode?: string[];
+  whiteBalanceMode?: string[];
+  focusMode?: string[];
+  exposureTime?: MediaSettingsRange;
+  colorTemperature?: MediaSettingsRange;
+  focusDistance?: MediaSettingsRange;
+  iso?: MediaSettingsRange;
+  torch?: boolean;
+}
+
+export interface ExtendedTrackConstraintSet extends MediaTrackConstraintSet {
+  zoom?: ConstrainDouble;
+  exposureMode?: ConstrainDOMString;
+  whiteBalanceMode?: ConstrainDOMString;
+  focusMode?: ConstrainDOMString;
+  exposureTime?: ConstrainDouble;
+  colorTemperature?: ConstrainDouble;
+  focusDistance?: ConstrainDouble;
+  torch?: ConstrainBoolean;
+}
+
+export interface ExtendedTrackSettings extends MediaTrackSettings {
+  zoom?: number;
+  exposureMode?: string;
+  whiteBalanceMode?: string;
+  focusMode?: string;
+  exposureTime?: number;
+  colorTemperature?: number;
+  focusDistance?: number;
+  iso?: number;
+  torch?: boolean;
+}
+
+// Camera settings in effect at capture time, sent alongside the image
+export interface AppliedCameraSettings {
+  locked: boolean; // true when exposure/white balance/focus were frozen before capture
+  deviceLabel?: string;
+  width?: number;
+  height?: number;
+  zoom?: number;
+  exposureMode?: string;
+  whiteBalanceMode?: string;
+  focusMode?: string;
+  exposureTime?: number;
+  colorTemperature?: number;
+  focusDistance?: number;
+  iso?: number;
+  torch?: boolean;
+}
+
+export interface CameraFeatureSupport {
+  lock: boolean; // at least one of exposure, white balance or focus can be frozen
+  torch: boolean;
+}
+
+export type ImageQualityIssueCode = 'blur' | 'glare' | 'underexposed' | 'overexposed';
+
+export interface ImageQualityIssue {
+  code: ImageQualityIssueCode;
+  message: string; // User-facing reason, shown in the capture toast
+}
+
+export interface ImageQualityReport {
+  passed: boolean;
+  sharpness: number; // Variance of the Laplacian on the downscaled luminance image
+  clippedFraction: number; // Share of pixels with a saturated channel (0 to 1)
+  brightness: number; // Mean luminance (0 to 255)
+  issues: ImageQualityIssue[];
+}
+
+export type CaptureFormat = 'png' | 'webp-lossless' | 'jpeg';
+
+export interface CaptureProfile {
+  format: CaptureFormat;
+  quality: number; // Encoder quality (0 to 1); only used by lossy JPEG
+  zoomFactor: number; // Magnification applied by the camera or by cropping on capture
+  maxOutputDimension: number | null; // Longest side of the captured image in pixels; null = sensor resolution
+}
+
+// Crosshair suggested by pad detection, awaiting accept/adjust/reject
+export interface ProposedCrosshair {
+  id: string;
+  x: number; // Relative X (0 to 1)
+  y: number; // Relative Y (0 to 1)
+  testType: TestType;
+}
+
+export interface NormalizedPoint {
+  x: number; // Relative X (0 to 1)
+  y: number; // Relative Y (0 to 1)
+}
+
+// Intrinsic pixel dimensions of a captured or imported image
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+// Perspective correction applied after capture, kept with the original image for audit
+export interface StripRectification {
+  corners: NormalizedPoint[]; // Strip corners in the original image: top-left, top-right, bottom-right, bottom-left
+  outputWidth: number;
+  outputHeight: number;
+}
+
+export interface StripTemplatePoint {
+  x: number; // Relative X (0 to 1)
+  y: number; // Relative Y (0 to 1)
+  testType: TestType;
+  region?: SamplingRegion;
+  replicateGroup?: number;
+}
+
+// Named crosshair layout for a strip brand, reusable across captures and devices
+export interface StripTemplate {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  points: StripTemplatePoint[]; // In placement order
+}
+
+export interface RgbColor {
+  r: number; // 0 to 255
+  g: number;
+  b: number;
+}
+
+export interface LabColor {
+  l: number; // CIE L* (0 to 100), D65 white
+  a: number;
+  b: number;
+}
+
+// Colour statistics of a sampling region, computed from the captured image
+export interface SampledColor {
+  mean: RgbColor;
+  lab: LabColor; // Of the mean colour
+  stdDev: RgbColor; // Per channel
+  pixelCount: number;
+}
+
+// Known-concentration standard from a calibration run, in the test type's reported unit
+export interface CalibrationStandard {
+  measured: number; // Concentration the backend reported for the standard
+  known: number;
+}
+
+// Least-squares line from measured to known concentration for one analyte
+export interface CalibrationCurve {
+  testType: TestType;
+  standards: CalibrationStandard[];
+  slope: number;
+  intercept: number;
+  rSquared: number | null; // Null with fewer than three standards
+}
+
+// Per-analyte calibration curves; every calibration run saves a new version
+export interface Calibration {
+  id: string;
+  version: number;
+  createdAt: string; // ISO timestamp
+  curves: CalibrationCurve[];
+}
+
+// Aggregate of the replicate readings of one pad, in the reported unit
+export interface ReplicateSummary {
+  testType: TestType;
+  group: number;
+  pointIndices: number[]; // Every point in the group, including unmeasured ones
+  count: number; // Measured points the statistics are based on
+  mean: number;
+  sd: number | null; // Sample standard deviation; null with fewer than two measurements
+  cvPercent: number | null; // SD relative to the mean; null without SD or with a zero mean
+  min: number;
+  max: number;
+  isUnreliable: boolean; // CV above REPLICATE_CV_THRESHOLD_PERCENT
+}
+
+// Colour of a pad at a known concentration, as reflectance relative to the white reference (1 = white)
+export interface ColourTableEntry {
+  r: number;
+  g: number;
+  b: number;
+  concentration: number; // In the test type's reported unit
+}
+
+// Downloadable colour-to-concentration table for on-device estimates
+export interface ColourTable {
+  version: string;
+  downloadedAt: string; // ISO timestamp, set when stored on the device
+  analytes: Record<TestType, ColourTableEntry[]>; // At least two entries per analyte, sorted by concentration
+}
+
+/**
+ * Why an analysis request failed:
+ * - timeout: no response within ANALYSIS_REQUEST.timeoutMs
+ * - network: the server could not be reached
+ * - server: the server failed with a 5xx status
+ * - rejected: the server refused this request with a 4xx status
+ * - invalid-response: the server's answer could not be used
+ * - cancelled: aborted through the caller's signal
+ * - client: the request could not be prepared (image, configuration)
+ */
+export type AnalysisErrorKind = 'timeout' | 'network' | 'server' | 'rejected' | 'invalid-response' | 'cancelled' | 'client';
@@ -0,0 +1,168 @@
+import { Calibration, CalibrationCurve, CalibrationStandard, ConcentrationResponse, PlacedCrosshair, TestType } from '@/types';
+import { classifyConcentration, TestTypeRegistry } from '@/utils/testTypeRegistry';
+
+/**
+ * Multi-point calibration against known-concentration standards
+ *
+ * A calibration run analyses a strip of standards as usual; each analyte's
+ * reported values are paired with the known ones and fitted with a line
+ * that later maps reported concentrations onto calibrated ones.
+ */
+
+// Backend marks points it could not measure with -1 or a 'none' remark
+export const isMeasured = (result: ConcentrationResponse): boolean => result.concentration !== -1 && result.remarks !== 'none';
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isCalibrationCurve = (value: unknown): value is CalibrationCurve => {
+  const curve = value as Partial<CalibrationCurve> | null;
+  return (
+    typeof curve?.testType === 'string' &&
+    isFiniteNumber(curve.slope) &&
+    isFiniteNumber(curve.intercept) &&
+    (curve.rSquared === null || isFiniteNumber(curve.rSquared)) &&
+    Array.isArray(curve.standards) &&
+    curve.standards.every((standard: Partial<CalibrationStandard>) => isFiniteNumber(standard?.measured) && isFiniteNumber(standard?.known))
+  );
+};
+
+const isCalibration = (value: unknown): value is Calibration => {
+  const calibration = value as Partial<Calibration> | null;
+  return (
+    typeof calibration?.id === 'string' &&
+    Number.isInteger(calibration.version) &&
+    typeof calibration.createdAt === 'string' &&
+    Array.isArray(calibration.curves) &&
+    calibration.curves.every(isCalibrationCurve)
+  );
+};
+
+/**
+ * Validates calibrations read back from local storage
+ *
+ * Malformed entries are dropped so corrupted storage can neither break the
+ * page nor silently change reported concentrations.
+ */
+export function restoreCalibrations(stored: unknown): Calibration[] {
+  if (!Array.isArray(stored)) return [];
+  const calibrations = stored.filter(isCalibration);
+  if (calibrations.length !== stored.length) console.warn(`Dropped ${stored.length - calibrations.length} invalid stored calibration(s).`);
+  return calibrations;
+}
+
+/**
+ * Fits known against measured concentrations
+ *
+ * One standard gives a line through the origin; two or more a least-squares line.
+ *
+ * @throws Error when the standards cannot define a line
+ */
+export function fitCalibrationCurve(testType: TestType, standards: CalibrationStandard[]): CalibrationCurve {
+  const n = standards.length;
+  if (n === 0) throw new Error(`No standards measured for ${testType}.`);
+
+  if (n === 1) {
+    const [{ measured, known }] = standards;
+    if (measured <= 0) throw new Error(`The ${testType} standard was measured as zero.`);
+    return { testType, standards, slope: known / measured, intercept: 0, rSquared: null };
+  }
+
+  const meanMeasured = standards.reduce((sum, s) => sum + s.measured, 0) / n;
+  const meanKnown = standards.reduce((sum, s) => sum + s.known, 0) / n;
+  const sxx = standards.reduce((sum, s) => sum + (s.measured - meanMeasured) ** 2, 0);
+  const sxy = standards.reduce((sum, s) => sum + (s.measured - meanMeasured) * (s.known - meanKnown), 0);
+  const syy = standards.reduce((sum, s) => sum + (s.known - meanKnown) ** 2, 0);
+  if (sxx === 0) throw new Error(`The ${testType} standards were all measured the same; use different concentrations.`);
+
+  const slope = sxy / sxx;
+  return {
+    testType,
+    standards,
+    slope,
+    intercept: meanKnown - slope * meanMeasured,
+    rSquared: n >= 3 && syy > 0 ? (sxy * sxy) / (sxx * syy) : null
+  };
+}
+
+/**
+ * Builds a new calibration version from a calibration run
+ *
+ * Analytes measured in the run get new curves; curves for other analytes
+ * carry over from the previous calibration.
+ *
+ * @param results - Backend results for the standards, uncalibrated
+ * @param crosshairs - Placed standards with their known concentrations
+ * @param testTypes - Registry telling reference points apart from analytes
+ * @param previous - Calibration in use before the run, if any
+ * @param version - Version number for the new calibration
+ * @throws Error when no analyte standard could be measured
+ */
+export function buildCalibration(
+  results: ConcentrationResponse[],
+  crosshairs: PlacedCrosshair[],
+  testTypes: TestTypeRegistry,
+  previous: Calibration | null,
+  version: number
+): Calibration {
+  const standardsByType = new Map<TestType, CalibrationStandard[]>();
+  crosshairs.forEach((crosshair) => {
+    const result = results.find((r) => r.pointIndex === crosshair.pointIndex);
+    if (testTypes.isReference(crosshair.testType) || crosshair.knownConcentration === undefined || !result || !isMeasured(result)) return;
+    const standards = standardsByType.get(crosshair.testType) ?? [];
+    standards.push({ measured: result.concentration, known: crosshair.knownConcentration });
+    standardsByType.set(crosshair.testType, standards);
+  });
+
+  if (standardsByType.size === 0) {
+    throw new Error('None of the standards could be measured.');
+  }
+
+  const curves = [...standardsByType].map(([testType, standards]) => fitCalibrationCurve(testType, standards));
+  const carriedOver = previous?.curves.filter((curve) => !standardsByType.has(curve.testType)) ?? [];
+
+  return {
+    id: `calibration-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    version,
+    createdAt: new Date().toISOString(),
+    curves: [...curves, ...carriedOver]
+  };
+}
+
+/**
+ * Maps reported concentrations through the calibration's curves
+ *
+ * Results keep their reported value in rawConcentration; analytes without a
+ * curve and unmeasured points are left as reported. Remarks are reclassified
+ * from the calibrated value where the test type has a reference range, and
+ * otherwise kept but marked as judged on the reported value.
+ */
+export function applyCalibration(
+  results: ConcentrationResponse[],
+  calibration: Calibration | null,
+  testTypes: TestTypeRegistry
+): ConcentrationResponse[] {
+  if (!calibration) return results;
+
+  return results.map((result) => {
+    const curve = calibration.curves.find((c) => c.testType === result.test_type);
+    if (!curve || !isMeasured(result)) return result;
+
+    const testType = testTypes.get(result.test_type);
+    const concentration = Math.max(0, curve.slope * result.concentration + curve.intercept);
+    return {
+      ...result,
+      concentration,
+      remarks: testType.referenceRange ? classifyConcentration(concentration, testType) : result.remarks,
+      remarksPreCalibration: !testType.referenceRange,
+      rawConcentration: result.concentration,
+      calibrationVersion: calibration.version
+    };
+  });
+}
+
+/**
+ * Short label for a calibration, e.g. "v3 · 19/10/2026"
+ */
+export function describeCalibration(calibration: Calibration): string {
+  return `v${calibration.version} · ${new Date(calibration.createdAt).toLocaleDateString()}`;
+}
@@ -0,0 +1,152 @@
+import {
+  AppliedCameraSettings,
+  CameraFeatureSupport,
+  ExtendedTrackCapabilities,
+  ExtendedTrackConstraintSet,
+  ExtendedTrackSettings
+} from '@/types';
+
+/**
+ * Camera exposure, white balance, focus and torch control
+ *
+ * Colour readings drift when auto-exposure and auto-white-balance re-adjust
+ * between strips. These helpers freeze the values the camera settled on
+ * while the user was aiming, so every capture in a session is comparable.
+ */
+
+type LockableMode = 'exposureMode' | 'whiteBalanceMode' | 'focusMode';
+type LockableValue = 'exposureTime' | 'colorTemperature' | 'focusDistance';
+
+// Each auto mode and the manual value that pins it in place
+const LOCKABLE_FEATURES: { mode: LockableMode; value: LockableValue }[] = [
+  { mode: 'exposureMode', value: 'exposureTime' },
+  { mode: 'whiteBalanceMode', value: 'colorTemperature' },
+  { mode: 'focusMode', value: 'focusDistance' }
+];
+
+/**
+ * Returns the active video track of a video element, if any
+ */
+export function getVideoTrack(videoElement: HTMLVideoElement | null): MediaStreamTrack | null {
+  return (videoElement?.srcObject as MediaStream | null)?.getVideoTracks()[0] ?? null;
+}
+
+const getCapabilities = (track: MediaStreamTrack): ExtendedTrackCapabilities => (track.getCapabilities?.() ?? {}) as ExtendedTrackCapabilities;
+
+/**
+ * Reports which lock and torch controls the track supports
+ */
+export function getCameraFeatureSupport(track: MediaStreamTrack | null): CameraFeatureSupport {
+  if (!track) return { lock: false, torch: false };
+
+  const capabilities = getCapabilities(track);
+  return {
+    lock: LOCKABLE_FEATURES.some(({ mode }) => capabilities[mode]?.some((value) => value === 'manual' || value === 'single-shot')),
+    torch: capabilities.torch === true
+  };
+}
+
+// One constraint set per feature: pinned to its value in manual mode where possible, else single-shot, else manual
+const buildLockConstraints = (
+  capabilities: ExtendedTrackCapabilities,
+  values: Partial<Record<LockableValue, number>>
+): ExtendedTrackConstraintSet[] => {
+  const advanced: ExtendedTrackConstraintSet[] = [];
+  LOCKABLE_FEATURES.forEach(({ mode, value }) => {
+    const modes = capabilities[mode] ?? [];
+    if (modes.includes('manual') && values[value] !== undefined) {
+      advanced.push({ [mode]: 'manual', [value]: values[value] });
+    } else if (modes.includes('single-shot')) {
+      advanced.push({ [mode]: 'single-shot' });
+    } else if (modes.includes('manual')) {
+      advanced.push({ [mode]: 'manual' });
+    }
+  });
+  return advanced;
+};
+
+/**
+ * Freezes exposure, white balance and focus at their current values
+ *
+ * Prefers 'manual' mode pinned to the value the auto algorithm settled on;
+ * uses 'single-shot' (adjust once, then hold) where manual values are not
+ * exposed. Each feature is a separate advanced constraint set so one
+ * unsupported feature does not prevent the others from locking.
+ *
+ * @returns The settings actually applied after locking
+ */
+export async function lockCameraSettings(track: MediaStreamTrack): Promise<AppliedCameraSettings> {
+  const advanced = buildLockConstraints(getCapabilities(track), track.getSettings() as ExtendedTrackSettings);
+  if (advanced.length === 0) {
+    throw new Error('This camera does not support locking exposure, white balance or focus.');
+  }
+
+  await track.applyConstraints({ advanced });
+  return readAppliedSettings(track, true);
+}
+
+/**
+ * Re-applies a previous lock to a new track, e.g. after the stream restarts
+ *
+ * Features with a recorded manual value are pinned to it; the rest fall back
+ * to 'single-shot', then plain 'manual', as in lockCameraSettings.
+ *
+ * @param track - Freshly started video track of the same camera
+ * @param locked - Settings returned by the original lock
+ * @returns The settings actually applied
+ */
+export async function reapplyCameraSettings(track: MediaStreamTrack, locked: AppliedCameraSettings): Promise<AppliedCameraSettings> {
+  const advanced = buildLockConstraints(getCapabilities(track), locked);
+  if (advanced.length === 0) {
+    throw new Error('This camera does not support locking exposure, white balance or focus.');
+  }
+
+  await track.applyConstraints({ advanced });
+  return readAppliedSettings(track, true);
+}
+
+/**
+ * Returns exposure, white balance and focus to continuous auto mode
+ */
+export async function unlockCameraSettings(track: MediaStreamTrack): Promise<void> {
+  const capabilities = getCapabilities(track);
+  const advanced: ExtendedTrackConstraintSet[] = LOCKABLE_FEATURES.filter(({ mode }) => capabilities[mode]?.includes('continuous')).map(
+    ({ mode }) => ({ [mode]: 'continuous' })
+  );
+
+  if (advanced.length > 0) {
+    await track.applyConstraints({ advanced });
+  }
+}
+
+/**
+ * Switches the camera torch (flash LED) on or off
+ */
+export async function setCameraTorch(track: MediaStreamTrack, enabled: boolean): Promise<void> {
+  await track.applyConstraints({ advanced: [{ torch: enabled } as ExtendedTrackConstraintSet] });
+}
+
+/**
+ * Reads the settings currently in effect on the track
+ *
+ * @param track - Active video track
+ * @param locked - Whether the settings were frozen via lockCameraSettings
+ */
+export function readAppliedSettings(track: MediaStreamTrack, locked: boolean): AppliedCameraSettings {
+  const settings = track.getSettings() as ExtendedTrackSettings;
+  return {
+    locked,
+    deviceLabel: track.label || undefined,
+    width: settings.width,
+    height: settings.height,
+    zoom: settings.zoom,
+    exposureMode: settings.exposureMode,
+    whiteBalanceMode: settings.whiteBalanceMode,
+    focusMode: settings.focusMode,
+    exposureTime: settings.exposureTime,
+    colorTemperature: settings.colorTemperature,
+    focusDistance: settings.focusDistance,
+    iso: settings.iso,
+    torch: settings.torch
+  };
+}
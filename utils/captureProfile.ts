@@ -0,0 +1,72 @@
+import { CaptureFormat, CaptureProfile } from '@/types';
+
+/**
+ * Canvas encoding according to the active capture profile
+ *
+ * Browsers that cannot encode the requested type silently fall back to PNG,
+ * so callers that name files should use the MIME type of the encoded result
+ * (see getFileExtension) rather than the profile.
+ */
+
+const CAPTURE_MIME_TYPES: Record<CaptureFormat, string> = {
+  png: 'image/png',
+  'webp-lossless': 'image/webp',
+  jpeg: 'image/jpeg'
+};
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/jpeg': 'jpeg'
+};
+
+/**
+ * MIME type requested from the canvas encoder for a capture format
+ */
+export function getCaptureMimeType(format: CaptureFormat): string {
+  return CAPTURE_MIME_TYPES[format];
+}
+
+/**
+ * File extension for an encoded image MIME type
+ */
+export function getFileExtension(mimeType: string): string {
+  return FILE_EXTENSIONS[mimeType] ?? 'png';
+}
+
+// WebP is encoded losslessly when quality is exactly 1; PNG ignores quality
+const getEncoderQuality = (profile: CaptureProfile): number | undefined => {
+  if (profile.format === 'webp-lossless') return 1;
+  if (profile.format === 'jpeg') return profile.quality;
+  return undefined;
+};
+
+/**
+ * Scale factor that fits an image within the profile's output resolution
+ */
+export function getOutputScale(width: number, height: number, maxDimension: number | null): number {
+  return maxDimension ? Math.min(1, maxDimension / Math.max(width, height)) : 1;
+}
+
+/**
+ * Encodes a canvas as a data URL using the capture profile
+ */
+export function encodeCanvasToDataUrl(canvas: HTMLCanvasElement, profile: CaptureProfile): string {
+  return canvas.toDataURL(getCaptureMimeType(profile.format), getEncoderQuality(profile));
+}
+
+/**
+ * Encodes a canvas as a Blob using the capture profile
+ */
+export function encodeCanvasToBlob(canvas: HTMLCanvasElement, profile: CaptureProfile): Promise<Blob> {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) resolve(blob);
+        else reject(new Error('Failed to create blob from canvas'));
+      },
+      getCaptureMimeType(profile.format),
+      getEncoderQuality(profile)
+    );
+  });
+}
@@ -0,0 +1,110 @@
+import { LabColor, RgbColor, SampledColor, SamplingRegion } from '@/types';
+
+/**
+ * Colour conversions and region statistics for on-device colour readouts
+ */
+
+// D65 reference white
+const WHITE_X = 0.95047;
+const WHITE_Y = 1;
+const WHITE_Z = 1.08883;
+
+const toLinear = (channel: number): number => {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+const labF = (t: number): number => (t > 216 / 24389 ? Math.cbrt(t) : ((24389 / 27) * t + 16) / 116);
+
+/**
+ * Converts an sRGB colour to CIE L*a*b* (D65)
+ */
+export function rgbToLab({ r, g, b }: RgbColor): LabColor {
+  const lr = toLinear(r);
+  const lg = toLinear(g);
+  const lb = toLinear(b);
+
+  const fx = labF((0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / WHITE_X);
+  const fy = labF((0.2126 * lr + 0.7152 * lg + 0.0722 * lb) / WHITE_Y);
+  const fz = labF((0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / WHITE_Z);
+
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+}
+
+/**
+ * Half extents of a sampling region in pixels
+ */
+export function getRegionHalfSizePx(region: SamplingRegion, width: number, height: number): { halfWidth: number; halfHeight: number } {
+  return region.shape === 'circle'
+    ? { halfWidth: region.radius * height, halfHeight: region.radius * height }
+    : { halfWidth: (region.width * width) / 2, halfHeight: (region.height * height) / 2 };
+}
+
+/**
+ * Mean colour, Lab and per-channel standard deviation of a sampling region
+ *
+ * @param imageData - Image to sample
+ * @param x - Region centre, relative to the image width (0 to 1)
+ * @param y - Region centre, relative to the image height (0 to 1)
+ * @param region - Region shape and size
+ * @returns Statistics, or null when the region lies outside the image
+ */
+export function sampleRegionColor(imageData: ImageData, x: number, y: number, region: SamplingRegion): SampledColor | null {
+  const { width, height, data } = imageData;
+  const centerX = x * width;
+  const centerY = y * height;
+  const { halfWidth, halfHeight } = getRegionHalfSizePx(region, width, height);
+  const sum = [0, 0, 0];
+  const sumSq = [0, 0, 0];
+  let count = 0;
+
+  const minY = Math.max(0, Math.floor(centerY - halfHeight));
+  const maxY = Math.min(height - 1, Math.ceil(centerY + halfHeight));
+  const minX = Math.max(0, Math.floor(centerX - halfWidth));
+  const maxX = Math.min(width - 1, Math.ceil(centerX + halfWidth));
+
+  for (let py = minY; py <= maxY; py++) {
+    for (let px = minX; px <= maxX; px++) {
+      const dx = px + 0.5 - centerX;
+      const dy = py + 0.5 - centerY;
+      const inside =
+        region.shape === 'circle' ? dx * dx + dy * dy <= halfWidth * halfWidth : Math.abs(dx) <= halfWidth && Math.abs(dy) <= halfHeight;
+      if (!inside) continue;
+
+      const i = (py * width + px) * 4;
+      for (let c = 0; c < 3; c++) {
+        sum[c] += data[i + c];
+        sumSq[c] += data[i + c] * data[i + c];
+      }
+      count++;
+    }
+  }
+
+  if (count === 0) return null;
+
+  const [r, g, b] = sum.map((s) => s / count);
+  const [sdR, sdG, sdB] = sumSq.map((s, c) => Math.sqrt(Math.max(0, s / count - (sum[c] / count) ** 2)));
+  const mean = { r, g, b };
+
+  return { mean, lab: rgbToLab(mean), stdDev: { r: sdR, g: sdG, b: sdB }, pixelCount: count };
+}
+
+/**
+ * Formats sampled colour statistics for display
+ */
+export function formatSampledColor({ mean, lab, stdDev }: SampledColor): { rgb: string; lab: string; stdDev: string } {
+  return {
+    rgb: `RGB ${Math.round(mean.r)}, ${Math.round(mean.g)}, ${Math.round(mean.b)}`,
+    lab: `L* ${lab.l.toFixed(1)} a* ${lab.a.toFixed(1)} b* ${lab.b.toFixed(1)}`,
+    stdDev: `SD ${stdDev.r.toFixed(1)}, ${stdDev.g.toFixed(1)}, ${stdDev.b.toFixed(1)}`
+  };
+}
+
+/**
+ * Black or white, whichever reads better on a hex background colour such as '#16a34a'
+ */
+export function getContrastingTextColor(hex: string): string {
+  const value = parseInt(hex.slice(1), 16);
+  const { l } = rgbToLab({ r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 });
+  return l > 65 ? '#000000' : '#ffffff';
+}
@@ -0,0 +1,46 @@
+import { ColourTable, ColourTableEntry } from '@/types';
+
+/**
+ * Colour tables for on-device estimates: validation of downloaded tables
+ */
+
+const isReflectance = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isColourTableEntry = (value: unknown): value is ColourTableEntry => {
+  const entry = value as Partial<Record<keyof ColourTableEntry, unknown>> | null;
+  return (
+    isReflectance(entry?.r) &&
+    isReflectance(entry.g) &&
+    isReflectance(entry.b) &&
+    typeof entry.concentration === 'number' &&
+    Number.isFinite(entry.concentration)
+  );
+};
+
+/**
+ * Validates a colour table from the backend or local storage
+ *
+ * @param value - Parsed JSON with `version` and per-analyte `analytes` entries
+ * @param downloadedAt - Optional: timestamp to stamp on the table; kept from the value otherwise
+ * @throws Error describing the first invalid analyte
+ */
+export function parseColourTable(value: unknown, downloadedAt?: string): ColourTable {
+  const candidate = value as Partial<Record<keyof ColourTable, unknown>> | null;
+  if (typeof candidate?.version !== 'string' || !candidate.version || typeof candidate.analytes !== 'object' || !candidate.analytes) {
+    throw new Error('Colour table is missing a version or analytes.');
+  }
+
+  const analytes: ColourTable['analytes'] = {};
+  Object.entries(candidate.analytes).forEach(([testType, entries]) => {
+    if (!Array.isArray(entries) || entries.length < 2 || !entries.every(isColourTableEntry)) {
+      throw new Error(`Colour table entries for ${testType} are invalid; at least two are needed.`);
+    }
+    analytes[testType] = [...entries].sort((a, b) => a.concentration - b.concentration);
+  });
+
+  return {
+    version: candidate.version,
+    downloadedAt: downloadedAt ?? (typeof candidate.downloadedAt === 'string' ? candidate.downloadedAt : new Date().toISOString()),
+    analytes
+  };
+}
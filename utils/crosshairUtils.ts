@@ -0,0 +1,65 @@
+import { DEFAULT_SAMPLING_REGION } from '@/constants/appConstants';
+import { PlacedCrosshair, SampledColor, SamplingRegion } from '@/types';
+
+/**
+ * Helpers for creating and maintaining placed crosshairs
+ */
+
+/**
+ * Generates a unique crosshair ID, preserved through analysis to match backend results
+ */
+export function createPointId(): string {
+  return `point-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Reassigns sequential point indices (1-based) after points are removed
+ */
+export function renumberCrosshairs(crosshairs: PlacedCrosshair[]): PlacedCrosshair[] {
+  return crosshairs.map((crosshair, index) => (crosshair.pointIndex === index + 1 ? crosshair : { ...crosshair, pointIndex: index + 1 }));
+}
+
+/**
+ * Sampling region of a point, falling back to the default for points without one
+ */
+export function getSamplingRegion(crosshair?: { region?: SamplingRegion } | null): SamplingRegion {
+  return crosshair?.region ?? DEFAULT_SAMPLING_REGION;
+}
+
+// Field-by-field comparison, so an edit that rebuilds a point with the same values counts as unchanged
+const isSameCrosshair = (a: PlacedCrosshair, b: PlacedCrosshair): boolean => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof PlacedCrosshair)[]);
+  return [...keys].every((key) => Object.is(a[key], b[key]));
+};
+
+/**
+ * Samples the colour under every point that is new, moved or resized since the previous state
+ *
+ * Returns `previous` itself when no point changed, so callers comparing by
+ * identity can recognise the update as a no-op.
+ *
+ * @param next - Updated crosshairs
+ * @param previous - Crosshairs before the update
+ * @param sample - Colour sampler for normalized coordinates
+ */
+export function withSampledColors(
+  next: PlacedCrosshair[],
+  previous: PlacedCrosshair[],
+  sample: (x: number, y: number, region: SamplingRegion) => SampledColor | null
+): PlacedCrosshair[] {
+  const sampled = next.map((crosshair) => {
+    const before = previous.find((p) => p.id === crosshair.id);
+    const unchanged = before && before.x === crosshair.x && before.y === crosshair.y && before.region === crosshair.region;
+    if (crosshair.sampledColor && unchanged) return crosshair;
+    return { ...crosshair, sampledColor: sample(crosshair.x, crosshair.y, getSamplingRegion(crosshair)) ?? undefined };
+  });
+  const changed = sampled.length !== previous.length || sampled.some((crosshair, index) => !isSameCrosshair(crosshair, previous[index]));
+  return changed ? sampled : previous;
+}
+
+/**
+ * Spoken description of a normalized position, for screen reader announcements
+ */
+export function describePosition(x: number, y: number): string {
+  return `${Math.round(x * 100)}% across, ${Math.round(y * 100)}% down`;
+}
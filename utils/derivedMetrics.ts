@@ -0,0 +1,128 @@
+import defaultDerivedMetrics from '@/constants/derivedMetrics.json';
+import { ConcentrationResponse, DerivedMetricCategory, DerivedMetricDefinition, DerivedMetricResult, TestType, UnitConversion } from '@/types';
+import { isMeasured } from '@/utils/calibration';
+import { isUnitConversion, TestTypeRegistry } from '@/utils/testTypeRegistry';
+
+/**
+ * Derived metrics: clinical ratios computed from the analytes on one strip,
+ * such as the albumin-to-creatinine ratio with its KDIGO category
+ */
+
+const isCategory = (value: unknown): value is DerivedMetricCategory => {
+  const category = value as Partial<Record<keyof DerivedMetricCategory, unknown>> | null;
+  return (
+    typeof category?.label === 'string' &&
+    !!category.label &&
+    typeof category.description === 'string' &&
+    (category.max === null || typeof category.max === 'number') &&
+    (category.maxInclusive === undefined || typeof category.maxInclusive === 'boolean')
+  );
+};
+
+/**
+ * Validates derived-metric definitions
+ *
+ * Accepts either an array of definitions or an object with a `derivedMetrics` array.
+ *
+ * @throws Error describing the first invalid definition
+ */
+export function parseDerivedMetrics(value: unknown): DerivedMetricDefinition[] {
+  const candidates = Array.isArray(value) ? value : (value as { derivedMetrics?: unknown } | null)?.derivedMetrics;
+  if (!Array.isArray(candidates)) {
+    throw new Error('Derived metrics are malformed.');
+  }
+
+  return candidates.map((candidate: Partial<Record<keyof DerivedMetricDefinition, unknown>>, index): DerivedMetricDefinition => {
+    const label = typeof candidate?.id === 'string' && candidate.id ? `"${candidate.id}"` : `#${index + 1}`;
+    if (typeof candidate?.id !== 'string' || !candidate.id || typeof candidate.name !== 'string' || !candidate.name.trim()) {
+      throw new Error(`Derived metric ${label} is missing an ID or name.`);
+    }
+    if (typeof candidate.numerator !== 'string' || typeof candidate.denominator !== 'string') {
+      throw new Error(`Derived metric ${label} needs numerator and denominator test types.`);
+    }
+    if (typeof candidate.factor !== 'number' || !(candidate.factor > 0) || typeof candidate.unit !== 'string') {
+      throw new Error(`Derived metric ${label} needs a positive factor and a unit.`);
+    }
+    if (candidate.siUnit != null && !isUnitConversion(candidate.siUnit)) {
+      throw new Error(`Derived metric ${label} has an invalid SI unit conversion.`);
+    }
+    const categories = candidate.categories ?? [];
+    if (!Array.isArray(categories) || !categories.every(isCategory)) {
+      throw new Error(`Derived metric ${label} has invalid categories.`);
+    }
+
+    return {
+      id: candidate.id,
+      name: candidate.name.trim(),
+      numerator: candidate.numerator,
+      denominator: candidate.denominator,
+      factor: candidate.factor,
+      unit: candidate.unit,
+      siUnit: candidate.siUnit != null ? (candidate.siUnit as UnitConversion) : null,
+      categories
+    };
+  });
+}
+
+// Bundled definitions from constants/derivedMetrics.json
+export const DEFAULT_DERIVED_METRICS = parseDerivedMetrics(defaultDerivedMetrics);
+
+/**
+ * Band a value falls in; the last band catches everything above the others
+ */
+export function categorizeDerivedValue(value: number, categories: DerivedMetricCategory[]): DerivedMetricCategory | null {
+  return (
+    categories.find(
+      (category) => category.max === null || value < category.max || (category.maxInclusive === true && value === category.max)
+    ) ?? null
+  );
+}
+
+/**
+ * Computes the derived metrics that at least one analysed analyte feeds
+ *
+ * An analyte read at several points (replicates) contributes the mean of its
+ * measured readings. A metric without a value carries a note naming the
+ * input that was not placed or not measured, or the zero denominator.
+ *
+ * @param results - Concentrations, calibrated or provisional as shown to the user
+ * @param testTypes - Registry naming the inputs in notes
+ * @param definitions - Optional: metric definitions, the bundled ones by default
+ */
+export function computeDerivedMetrics(
+  results: ConcentrationResponse[],
+  testTypes: TestTypeRegistry,
+  definitions: DerivedMetricDefinition[] = DEFAULT_DERIVED_METRICS
+): DerivedMetricResult[] {
+  return definitions
+    .filter((definition) => results.some((result) => result.test_type === definition.numerator || result.test_type === definition.denominator))
+    .map((definition) => {
+      const inputs = [definition.numerator, definition.denominator].map((testType: TestType) => {
+        const readings = results.filter((result) => result.test_type === testType);
+        const measured = readings.filter(isMeasured);
+        return {
+          name: testTypes.get(testType).name,
+          placed: readings.length > 0,
+          mean: measured.length > 0 ? measured.reduce((sum, result) => sum + result.concentration, 0) / measured.length : null,
+          provisional: readings.some((result) => result.provisional)
+        };
+      });
+      const [numerator, denominator] = inputs;
+      const base = { definition, value: null, category: null, provisional: inputs.some((input) => input.provisional) };
+
+      const notPlaced = inputs.find((input) => !input.placed);
+      if (notPlaced) {
+        return { ...base, status: 'missing' as const, note: `${notPlaced.name} was not part of the analysis` };
+      }
+      const notMeasured = inputs.find((input) => input.mean === null);
+      if (notMeasured) {
+        return { ...base, status: 'unmeasured' as const, note: `${notMeasured.name} was not measured` };
+      }
+      if (denominator.mean === 0) {
+        return { ...base, status: 'invalid' as const, note: `${denominator.name} is zero` };
+      }
+
+      const value = (numerator.mean! / denominator.mean!) * definition.factor;
+      return { ...base, status: 'ok' as const, value, category: categorizeDerivedValue(value, definition.categories), note: null };
+    });
+}
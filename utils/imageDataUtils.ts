@@ -0,0 +1,33 @@
+/**
+ * Helpers for reading captured images back into pixels for on-device analysis
+ */
+
+/**
+ * Decodes an image data URL into ImageData
+ *
+ * @param dataUrl - Captured or imported image
+ * @param maxDimension - Optional: downscale so the longest side is at most this many pixels
+ */
+export async function loadImageData(dataUrl: string, maxDimension?: number): Promise<ImageData> {
+  const image = new Image();
+  image.src = dataUrl;
+  await image.decode();
+
+  const scale = maxDimension ? Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight)) : 1;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    canvas.remove();
+    throw new Error('Failed to get canvas context');
+  }
+
+  try {
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+  } finally {
+    canvas.remove();
+  }
+}
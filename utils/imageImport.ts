@@ -0,0 +1,83 @@
+import { CAPTURE_ASPECT_RATIO, CAPTURE_PROFILE, IMPORT_MAX_DIMENSION } from '@/constants/appConstants';
+import { CaptureProfile } from '@/types';
+import { encodeCanvasToDataUrl } from '@/utils/captureProfile';
+
+/**
+ * Imported image normalisation
+ *
+ * Photos taken earlier or on another device arrive with arbitrary EXIF
+ * orientation and aspect ratio. They are redrawn upright onto a 4:3 frame
+ * (letterboxed, never cropped, so no pad is cut off) to match what the
+ * live capture produces and what CameraDisplay assumes.
+ */
+
+/**
+ * Decodes an image file with its EXIF orientation applied
+ */
+const decodeImage = async (file: Blob): Promise<{ source: CanvasImageSource; width: number; height: number; release: () => void }> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+      return { source: bitmap, width: bitmap.width, height: bitmap.height, release: () => bitmap.close() };
+    } catch (error) {
+      console.warn('createImageBitmap failed, falling back to <img> decoding:', error);
+    }
+  }
+
+  // <img> decoding honours EXIF orientation by default (CSS image-orientation: from-image)
+  const objectUrl = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = objectUrl;
+    await image.decode();
+    return { source: image, width: image.naturalWidth, height: image.naturalHeight, release: () => URL.revokeObjectURL(objectUrl) };
+  } catch {
+    URL.revokeObjectURL(objectUrl);
+    throw new Error('Could not read the image file.');
+  }
+};
+
+/**
+ * Converts an imported image file into a capture-ready data URL
+ *
+ * @param file - Image from the file picker, drag-and-drop or clipboard
+ * @param profile - Capture profile for encoding and output size
+ * @returns Upright, 4:3 letterboxed image as a data URL
+ */
+export async function importImageFile(file: Blob, profile: CaptureProfile = CAPTURE_PROFILE): Promise<string> {
+  if (!file.type.startsWith('image/')) {
+    throw new Error('Unsupported file type. Please choose an image.');
+  }
+
+  const { source, width, height, release } = await decodeImage(file);
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    release();
+    canvas.remove();
+    throw new Error('Failed to get canvas context');
+  }
+
+  try {
+    // Smallest 4:3 frame that contains the whole image, capped at the profile's
+    // output size (or IMPORT_MAX_DIMENSION when the profile keeps full resolution)
+    const frameWidth = Math.max(width, height * CAPTURE_ASPECT_RATIO);
+    const frameHeight = frameWidth / CAPTURE_ASPECT_RATIO;
+    const scale = Math.min(1, (profile.maxOutputDimension ?? IMPORT_MAX_DIMENSION) / frameWidth);
+
+    canvas.width = Math.round(frameWidth * scale);
+    canvas.height = Math.round(frameHeight * scale);
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    const drawWidth = width * scale;
+    const drawHeight = height * scale;
+    ctx.drawImage(source, (canvas.width - drawWidth) / 2, (canvas.height - drawHeight) / 2, drawWidth, drawHeight);
+
+    return encodeCanvasToDataUrl(canvas, profile);
+  } finally {
+    release();
+    canvas.remove();
+  }
+}
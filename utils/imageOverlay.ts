@@ -0,0 +1,51 @@
+import { ImageSize, NormalizedPoint } from '@/types';
+
+/**
+ * Mapping between the on-screen image overlay and image coordinates
+ *
+ * The overlay is an SVG whose viewBox is the image's intrinsic pixel size,
+ * laid over exactly the area the image is drawn in. Markers are drawn in
+ * intrinsic pixels and pointer positions are read back through the same
+ * element, so both stay on the pixels the backend samples at any display
+ * size, orientation or aspect ratio.
+ */
+
+const clamp = (value: number): number => Math.min(1, Math.max(0, value));
+
+/**
+ * Converts normalized (0-1) image coordinates to intrinsic pixels
+ */
+export function toImagePixels(point: NormalizedPoint, size: ImageSize): { x: number; y: number } {
+  return { x: point.x * size.width, y: point.y * size.height };
+}
+
+/**
+ * Converts a viewport position to normalized image coordinates through the overlay element
+ *
+ * Uses the element's on-screen box, which already includes any zoom or pan
+ * transform on its ancestors.
+ *
+ * @param options.clampToImage - Snap positions outside the image to its edge, e.g. while dragging a point
+ * @returns Position on the image, or null when it lies outside the image (e.g. in the letterbox) or the overlay has no size yet
+ */
+export function clientToImagePoint(
+  overlay: Element,
+  clientX: number,
+  clientY: number,
+  { clampToImage = false }: { clampToImage?: boolean } = {}
+): NormalizedPoint | null {
+  const rect = overlay.getBoundingClientRect();
+  if (!rect.width || !rect.height) return null;
+
+  const x = (clientX - rect.left) / rect.width;
+  const y = (clientY - rect.top) / rect.height;
+  if (clampToImage) return { x: clamp(x), y: clamp(y) };
+  return x >= 0 && x <= 1 && y >= 0 && y <= 1 ? { x, y } : null;
+}
+
+/**
+ * Width-to-height ratio of an image, or the fallback while its size is unknown
+ */
+export function getAspectRatio(size: ImageSize | null, fallback: number): number {
+  return size && size.height ? size.width / size.height : fallback;
+}
@@ -0,0 +1,115 @@
+import { IMAGE_QUALITY_GATE } from '@/constants/appConstants';
+import { ImageQualityIssue, ImageQualityReport } from '@/types';
+
+/**
+ * Pre-capture image quality analysis
+ *
+ * Blurry, glare-washed or badly exposed captures produce unreliable colour
+ * readings. These checks run on-device on the frame from extractZoomedFrame
+ * so bad captures can be rejected before they reach the backend.
+ */
+
+// Channel value treated as clipped (sensor saturated, colour information lost)
+const CLIPPED_CHANNEL_VALUE = 250;
+
+export interface LuminanceGrid {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+/**
+ * Converts image pixels to a downscaled luminance (Rec. 601 luma) grid
+ *
+ * Uses box averaging so the result is comparable across input resolutions.
+ *
+ * @param imageData - Source pixels
+ * @param maxDimension - Longest side of the output grid
+ */
+export function toLuminanceGrid(imageData: ImageData, maxDimension: number = IMAGE_QUALITY_GATE.analysisSize): LuminanceGrid {
+  const { width: srcWidth, height: srcHeight, data: src } = imageData;
+  const scale = Math.min(1, maxDimension / Math.max(srcWidth, srcHeight));
+  const width = Math.max(1, Math.round(srcWidth * scale));
+  const height = Math.max(1, Math.round(srcHeight * scale));
+
+  const sums = new Float32Array(width * height);
+  const counts = new Uint32Array(width * height);
+
+  for (let y = 0; y < srcHeight; y++) {
+    const gridRow = Math.min(height - 1, Math.floor(y * scale)) * width;
+    for (let x = 0; x < srcWidth; x++) {
+      const i = (y * srcWidth + x) * 4;
+      const cell = gridRow + Math.min(width - 1, Math.floor(x * scale));
+      sums[cell] += 0.299 * src[i] + 0.587 * src[i + 1] + 0.114 * src[i + 2];
+      counts[cell]++;
+    }
+  }
+
+  for (let i = 0; i < sums.length; i++) {
+    sums[i] = counts[i] ? sums[i] / counts[i] : 0;
+  }
+
+  return { data: sums, width, height };
+}
+
+/**
+ * Variance of the 4-neighbour Laplacian; low values mean few sharp edges (blur)
+ */
+const laplacianVariance = ({ data, width, height }: LuminanceGrid): number => {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = 4 * data[i] - data[i - 1] - data[i + 1] - data[i - width] - data[i + width];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
+
+/**
+ * Scores a frame for sharpness, clipped highlights and overall brightness
+ *
+ * @param imageData - Frame pixels, ideally already downscaled to IMAGE_QUALITY_GATE.analysisSize
+ * @returns Report with the measured values and any failed checks
+ */
+export function analyzeImageQuality(imageData: ImageData): ImageQualityReport {
+  const grid = toLuminanceGrid(imageData);
+  const sharpness = laplacianVariance(grid);
+
+  let clippedPixels = 0;
+  const { data } = imageData;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i] >= CLIPPED_CHANNEL_VALUE || data[i + 1] >= CLIPPED_CHANNEL_VALUE || data[i + 2] >= CLIPPED_CHANNEL_VALUE) {
+      clippedPixels++;
+    }
+  }
+  const clippedFraction = clippedPixels / Math.max(1, data.length / 4);
+
+  let luminanceSum = 0;
+  grid.data.forEach((value) => (luminanceSum += value));
+  const brightness = luminanceSum / Math.max(1, grid.data.length);
+
+  const issues: ImageQualityIssue[] = [];
+  if (sharpness < IMAGE_QUALITY_GATE.minSharpness) {
+    issues.push({ code: 'blur', message: 'Image is blurry. Hold the device steady and let the camera focus.' });
+  }
+  if (clippedFraction > IMAGE_QUALITY_GATE.maxClippedFraction) {
+    issues.push({ code: 'glare', message: 'Glare detected on the strip. Tilt the device or move away from direct light.' });
+  }
+  if (brightness < IMAGE_QUALITY_GATE.minBrightness) {
+    issues.push({ code: 'underexposed', message: 'Image is too dark. Add light or switch on the torch.' });
+  } else if (brightness > IMAGE_QUALITY_GATE.maxBrightness) {
+    issues.push({ code: 'overexposed', message: 'Image is overexposed. Reduce the light on the strip.' });
+  }
+
+  return { passed: issues.length === 0, sharpness, clippedFraction, brightness, issues };
+}
@@ -0,0 +1,95 @@
+import { LOUPE } from '@/constants/appConstants';
+import { ColourTable, ColourTableEntry, ConcentrationResponse, PlacedCrosshair, RgbColor } from '@/types';
+import { sampleRegionColor } from '@/utils/colorUtils';
+import { getSamplingRegion } from '@/utils/crosshairUtils';
+import { loadImageData } from '@/utils/imageDataUtils';
+import { classifyConcentration, TestTypeRegistry } from '@/utils/testTypeRegistry';
+
+/**
+ * On-device concentration estimates for when the backend is unreachable
+ *
+ * Each pad's colour is divided channel by channel by the white reference's,
+ * and the resulting reflectance is located on the analyte's colour table
+ * curve. Results are marked provisional: they are a field fallback, not a
+ * substitute for the backend's analysis, and calibrations are not applied.
+ */
+
+type Reflectance = Omit<ColourTableEntry, 'concentration'>;
+
+const toReflectance = (colour: RgbColor, white: RgbColor): Reflectance => ({
+  r: colour.r / white.r,
+  g: colour.g / white.g,
+  b: colour.b / white.b
+});
+
+/**
+ * Reads a concentration off the table curve nearest to the reflectance
+ *
+ * The curve joins the entries in concentration order; the reflectance is
+ * projected onto its closest segment and interpolated along it, so values
+ * beyond the table clamp to its lowest or highest concentration.
+ */
+function interpolateConcentration(reflectance: Reflectance, entries: ColourTableEntry[]): number {
+  let best = { distance: Infinity, concentration: entries[0].concentration };
+
+  for (let i = 0; i < entries.length - 1; i++) {
+    const a = entries[i];
+    const b = entries[i + 1];
+    const segment = [b.r - a.r, b.g - a.g, b.b - a.b];
+    const offset = [reflectance.r - a.r, reflectance.g - a.g, reflectance.b - a.b];
+    const lengthSquared = segment.reduce((sum, d) => sum + d * d, 0);
+    const t = lengthSquared > 0 ? Math.min(1, Math.max(0, segment.reduce((sum, d, k) => sum + d * offset[k], 0) / lengthSquared)) : 0;
+    const distance = offset.reduce((sum, d, k) => sum + (d - t * segment[k]) ** 2, 0);
+
+    if (distance < best.distance) {
+      best = { distance, concentration: a.concentration + t * (b.concentration - a.concentration) };
+    }
+  }
+
+  return best.concentration;
+}
+
+/**
+ * Estimates concentrations on the device in the backend's result shape
+ *
+ * Analytes missing from the table, or whose colour could not be sampled,
+ * come back unmeasured (-1, 'none') like the backend reports them.
+ *
+ * @param imageDataUrl - Image the crosshairs were placed on
+ * @param crosshairs - Placed points, including the white reference
+ * @param colourTable - Downloaded colour table
+ * @param testTypes - Registry telling the reference apart and giving reference ranges
+ * @throws Error when the white reference cannot be sampled
+ */
+export async function estimateConcentrationsLocally(
+  imageDataUrl: string,
+  crosshairs: PlacedCrosshair[],
+  colourTable: ColourTable,
+  testTypes: TestTypeRegistry
+): Promise<ConcentrationResponse[]> {
+  const imageData = await loadImageData(imageDataUrl, LOUPE.analysisSize);
+  const sample = (crosshair: PlacedCrosshair) => sampleRegionColor(imageData, crosshair.x, crosshair.y, getSamplingRegion(crosshair));
+
+  const reference = crosshairs.find((crosshair) => testTypes.isReference(crosshair.testType));
+  const white = reference && sample(reference)?.mean;
+  if (!white || white.r === 0 || white.g === 0 || white.b === 0) {
+    throw new Error(`The ${testTypes.referenceType.name.toLowerCase()} could not be sampled for an on-device estimate.`);
+  }
+
+  return crosshairs
+    .filter((crosshair) => !testTypes.isReference(crosshair.testType))
+    .map((crosshair) => {
+      const entries = colourTable.analytes[crosshair.testType];
+      const colour = sample(crosshair)?.mean;
+      const concentration = entries && colour ? interpolateConcentration(toReflectance(colour, white), entries) : -1;
+
+      return {
+        pointIndex: crosshair.pointIndex,
+        test_type: crosshair.testType,
+        concentration,
+        remarks: concentration === -1 ? 'none' : classifyConcentration(concentration, testTypes.get(crosshair.testType)),
+        provisional: true,
+        colourTableVersion: colourTable.version
+      };
+    });
+}
@@ -0,0 +1,21 @@
+import { LuminanceGrid } from '@/utils/imageQuality';
+
+/**
+ * Measures motion between two frames as the mean absolute luminance difference
+ *
+ * Both grids must come from toLuminanceGrid with the same size. Camera shake
+ * and strip movement both raise the value; sensor noise alone stays near 1-2.
+ *
+ * @returns Mean absolute difference (0 to 255), or Infinity when the grids differ in size
+ */
+export function measureFrameMotion(previous: LuminanceGrid, current: LuminanceGrid): number {
+  if (previous.width !== current.width || previous.height !== current.height) {
+    return Infinity;
+  }
+
+  let totalDifference = 0;
+  for (let i = 0; i < current.data.length; i++) {
+    totalDifference += Math.abs(current.data[i] - previous.data[i]);
+  }
+  return totalDifference / Math.max(1, current.data.length);
+}
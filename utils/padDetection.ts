@@ -0,0 +1,315 @@
+import { PAD_DETECTION } from '@/constants/appConstants';
+import { NormalizedPoint, ProposedCrosshair, TestType } from '@/types';
+import { createPointId } from '@/utils/crosshairUtils';
+import { loadImageData } from '@/utils/imageDataUtils';
+import { TestTypeRegistry } from '@/utils/testTypeRegistry';
+
+/**
+ * Client-side test strip pad detection
+ *
+ * Finds coloured reagent pads (saturated, compact blobs of similar size) and
+ * the most interior point of the white reference area, then proposes
+ * crosshairs for them. Detection is a heuristic: every proposal is reviewed
+ * by the user before it becomes a placed point.
+ */
+
+export interface DetectedRegion {
+  x: number; // Centre, relative to image width (0 to 1)
+  y: number; // Centre, relative to image height (0 to 1)
+  width: number; // Relative to image width
+  height: number; // Relative to image height
+}
+
+export interface PadDetectionResult {
+  pads: DetectedRegion[]; // Ordered starting from the pad nearest the white reference
+  whiteReference: { x: number; y: number } | null;
+}
+
+interface Component {
+  area: number;
+  sumX: number;
+  sumY: number;
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+  // Extreme points along the diagonals, used as quadrilateral corners
+  topLeft: NormalizedPoint; // min x + y
+  topRight: NormalizedPoint; // max x - y
+  bottomRight: NormalizedPoint; // max x + y
+  bottomLeft: NormalizedPoint; // min x - y
+}
+
+/**
+ * Labels 4-connected regions of a binary mask
+ */
+const findComponents = (mask: Uint8Array, width: number, height: number): Component[] => {
+  const visited = new Uint8Array(mask.length);
+  const stack: number[] = [];
+  const components: Component[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || visited[start]) continue;
+
+    const startX = start % width;
+    const startY = (start - startX) / width;
+    const startPoint = { x: startX, y: startY };
+    const component: Component = {
+      area: 0,
+      sumX: 0,
+      sumY: 0,
+      minX: width,
+      maxX: 0,
+      minY: height,
+      maxY: 0,
+      topLeft: startPoint,
+      topRight: startPoint,
+      bottomRight: startPoint,
+      bottomLeft: startPoint
+    };
+    visited[start] = 1;
+    stack.push(start);
+
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const x = index % width;
+      const y = (index - x) / width;
+      component.area++;
+      component.sumX += x;
+      component.sumY += y;
+      component.minX = Math.min(component.minX, x);
+      component.maxX = Math.max(component.maxX, x);
+      component.minY = Math.min(component.minY, y);
+      component.maxY = Math.max(component.maxY, y);
+      if (x + y < component.topLeft.x + component.topLeft.y) component.topLeft = { x, y };
+      if (x + y > component.bottomRight.x + component.bottomRight.y) component.bottomRight = { x, y };
+      if (x - y > component.topRight.x - component.topRight.y) component.topRight = { x, y };
+      if (x - y < component.bottomLeft.x - component.bottomLeft.y) component.bottomLeft = { x, y };
+
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        y > 0 ? index - width : -1,
+        y < height - 1 ? index + width : -1
+      ];
+      for (const neighbour of neighbours) {
+        if (neighbour >= 0 && mask[neighbour] && !visited[neighbour]) {
+          visited[neighbour] = 1;
+          stack.push(neighbour);
+        }
+      }
+    }
+
+    components.push(component);
+  }
+
+  return components;
+};
+
+/**
+ * Two-pass chamfer distance from each mask pixel to the nearest non-mask pixel
+ */
+const distanceInsideMask = (mask: Uint8Array, width: number, height: number): Float32Array => {
+  const distance = new Float32Array(mask.length);
+  const far = width + height;
+  for (let i = 0; i < mask.length; i++) distance[i] = mask[i] ? far : 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (!distance[i]) continue;
+      const left = x > 0 ? distance[i - 1] : 0;
+      const up = y > 0 ? distance[i - width] : 0;
+      distance[i] = Math.min(distance[i], left + 1, up + 1);
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      if (!distance[i]) continue;
+      const right = x < width - 1 ? distance[i + 1] : 0;
+      const down = y < height - 1 ? distance[i + width] : 0;
+      distance[i] = Math.min(distance[i], right + 1, down + 1);
+    }
+  }
+
+  return distance;
+};
+
+/**
+ * Classifies pixels as reagent pad (saturated colour) or white strip/reference
+ */
+const classifyPixels = ({ width, height, data }: ImageData): { padMask: Uint8Array; whiteMask: Uint8Array } => {
+  const pixelCount = width * height;
+  const padMask = new Uint8Array(pixelCount);
+  const whiteMask = new Uint8Array(pixelCount);
+
+  let maxValue = 0;
+  for (let i = 0; i < pixelCount; i++) {
+    maxValue = Math.max(maxValue, data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+  }
+
+  for (let i = 0; i < pixelCount; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    const max = Math.max(r, g, b);
+    const value = max / 255;
+    const saturation = max === 0 ? 0 : (max - Math.min(r, g, b)) / max;
+
+    padMask[i] = saturation >= PAD_DETECTION.minPadSaturation && value >= PAD_DETECTION.minPadValue ? 1 : 0;
+    whiteMask[i] = saturation <= PAD_DETECTION.maxWhiteSaturation && max >= maxValue * PAD_DETECTION.minWhiteValueRatio ? 1 : 0;
+  }
+
+  return { padMask, whiteMask };
+};
+
+/**
+ * Detects reagent pads and the white reference area in a strip image
+ *
+ * @param imageData - Strip image, ideally downscaled to PAD_DETECTION.analysisSize
+ */
+export function detectPads(imageData: ImageData): PadDetectionResult {
+  const { width, height } = imageData;
+  const pixelCount = width * height;
+  const { padMask, whiteMask } = classifyPixels(imageData);
+
+  // Pads: compact blobs within the expected size range...
+  const candidates = findComponents(padMask, width, height).filter((component) => {
+    const boxWidth = component.maxX - component.minX + 1;
+    const boxHeight = component.maxY - component.minY + 1;
+    const areaFraction = component.area / pixelCount;
+    return (
+      areaFraction >= PAD_DETECTION.minPadArea &&
+      areaFraction <= PAD_DETECTION.maxPadArea &&
+      component.area / (boxWidth * boxHeight) >= PAD_DETECTION.minPadFill &&
+      Math.max(boxWidth, boxHeight) / Math.min(boxWidth, boxHeight) <= PAD_DETECTION.maxPadAspect
+    );
+  });
+
+  // ...and of similar size to each other, which discards stray coloured background objects
+  const areas = candidates.map((component) => component.area).sort((a, b) => a - b);
+  const medianArea = areas[Math.floor(areas.length / 2)] ?? 0;
+  const padComponents = candidates.filter((component) => component.area >= medianArea / 3 && component.area <= medianArea * 3);
+
+  const pads: DetectedRegion[] = padComponents.map((component) => ({
+    x: (component.sumX / component.area + 0.5) / width,
+    y: (component.sumY / component.area + 0.5) / height,
+    width: (component.maxX - component.minX + 1) / width,
+    height: (component.maxY - component.minY + 1) / height
+  }));
+
+  // White reference: the most interior white pixel, searched near the pads when there are any
+  const distance = distanceInsideMask(whiteMask, width, height);
+  let searchBox = { minX: 0, maxX: width - 1, minY: 0, maxY: height - 1 };
+  if (padComponents.length > 0) {
+    const padSize = Math.sqrt(medianArea);
+    searchBox = {
+      minX: Math.max(0, Math.min(...padComponents.map((c) => c.minX)) - 3 * padSize),
+      maxX: Math.min(width - 1, Math.max(...padComponents.map((c) => c.maxX)) + 3 * padSize),
+      minY: Math.max(0, Math.min(...padComponents.map((c) => c.minY)) - 3 * padSize),
+      maxY: Math.min(height - 1, Math.max(...padComponents.map((c) => c.maxY)) + 3 * padSize)
+    };
+  }
+
+  let bestIndex = -1;
+  for (let y = Math.floor(searchBox.minY); y <= searchBox.maxY; y++) {
+    for (let x = Math.floor(searchBox.minX); x <= searchBox.maxX; x++) {
+      const i = y * width + x;
+      if (distance[i] > 0 && (bestIndex < 0 || distance[i] > distance[bestIndex])) bestIndex = i;
+    }
+  }
+  const whiteReference = bestIndex < 0 ? null : { x: ((bestIndex % width) + 0.5) / width, y: (Math.floor(bestIndex / width) + 0.5) / height };
+
+  // Order pads along the strip's long axis, starting from the end nearest the white reference
+  const spreadX = pads.length ? Math.max(...pads.map((p) => p.x)) - Math.min(...pads.map((p) => p.x)) : 0;
+  const spreadY = pads.length ? Math.max(...pads.map((p) => p.y)) - Math.min(...pads.map((p) => p.y)) : 0;
+  const axis: 'x' | 'y' = spreadX >= spreadY ? 'x' : 'y';
+  pads.sort((a, b) => a[axis] - b[axis]);
+  if (whiteReference && pads.length > 1) {
+    const first = pads[0];
+    const last = pads[pads.length - 1];
+    if (Math.abs(last[axis] - whiteReference[axis]) < Math.abs(first[axis] - whiteReference[axis])) {
+      pads.reverse();
+    }
+  }
+
+  return { pads, whiteReference };
+}
+
+/**
+ * Turns a detection result into crosshair proposals
+ *
+ * Pads get their test type from their position in the pad order; pads
+ * beyond the configured order repeat its last entry for the user to fix.
+ *
+ * @param result - Output of detectPads
+ * @param padOrder - Test types of the pads, nearest the white reference first
+ * @param referenceTestType - Test type of the white reference area
+ */
+export function proposeCrosshairs(result: PadDetectionResult, padOrder: TestType[], referenceTestType: TestType): ProposedCrosshair[] {
+  const proposals: ProposedCrosshair[] = [];
+
+  if (result.whiteReference) {
+    proposals.push({ id: createPointId(), ...result.whiteReference, testType: referenceTestType });
+  }
+
+  result.pads.forEach((pad, index) => {
+    proposals.push({ id: createPointId(), x: pad.x, y: pad.y, testType: padOrder[Math.min(index, padOrder.length - 1)] });
+  });
+
+  return proposals;
+}
+
+/**
+ * Runs pad detection on a captured image and returns crosshair proposals
+ *
+ * @param imageDataUrl - Captured or imported image
+ * @param testTypes - Registry supplying the pad order and the reference type
+ */
+export async function detectCrosshairProposals(imageDataUrl: string, testTypes: TestTypeRegistry): Promise<ProposedCrosshair[]> {
+  const imageData = await loadImageData(imageDataUrl, PAD_DETECTION.analysisSize);
+  return proposeCrosshairs(
+    detectPads(imageData),
+    testTypes.analyteTypes.map((testType) => testType.id),
+    testTypes.referenceType.id
+  );
+}
+
+/**
+ * Finds the four corners of the strip (white body plus pads) for perspective correction
+ *
+ * @param imageData - Strip image, ideally downscaled to PAD_DETECTION.analysisSize
+ * @returns Corners as [top-left, top-right, bottom-right, bottom-left], or null when no strip-like region is found
+ */
+export function detectStripCorners(imageData: ImageData): NormalizedPoint[] | null {
+  const { width, height } = imageData;
+  const { padMask, whiteMask } = classifyPixels(imageData);
+  const stripMask = padMask.map((isPad, i) => (isPad || whiteMask[i] ? 1 : 0));
+
+  const strip = findComponents(stripMask, width, height).reduce<Component | null>(
+    (largest, component) => (!largest || component.area > largest.area ? component : largest),
+    null
+  );
+
+  // A region filling the whole frame is background (e.g. white paper), not the strip
+  const spansFrame = strip && strip.maxX - strip.minX >= width * 0.95 && strip.maxY - strip.minY >= height * 0.95;
+  if (!strip || strip.area < width * height * PAD_DETECTION.minStripArea || spansFrame) {
+    return null;
+  }
+
+  return [strip.topLeft, strip.topRight, strip.bottomRight, strip.bottomLeft].map((corner) => ({
+    x: (corner.x + 0.5) / width,
+    y: (corner.y + 0.5) / height
+  }));
+}
+
+/**
+ * Runs strip corner detection on a captured image
+ *
+ * @param imageDataUrl - Captured or imported image
+ */
+export async function detectStripCornersInImage(imageDataUrl: string): Promise<NormalizedPoint[] | null> {
+  const imageData = await loadImageData(imageDataUrl, PAD_DETECTION.analysisSize);
+  return detectStripCorners(imageData);
+}
@@ -0,0 +1,149 @@
+import { CAPTURE_PROFILE } from '@/constants/appConstants';
+import { CaptureProfile, NormalizedPoint, StripRectification } from '@/types';
+import { encodeCanvasToDataUrl } from '@/utils/captureProfile';
+import { loadImageData } from '@/utils/imageDataUtils';
+
+/**
+ * Perspective correction (deskew) for test strip images
+ *
+ * Warps the quadrilateral spanned by the strip's four corners onto an
+ * upright rectangle centred in a frame of the original size, so pads line
+ * up with the crosshair sampling area and placements become reusable.
+ */
+
+// Share of the output frame the rectified strip may fill along its limiting side
+const STRIP_FILL_RATIO = 0.9;
+
+// Default corners offered when the strip cannot be detected
+export const DEFAULT_STRIP_CORNERS: NormalizedPoint[] = [
+  { x: 0.1, y: 0.35 },
+  { x: 0.9, y: 0.35 },
+  { x: 0.9, y: 0.65 },
+  { x: 0.1, y: 0.65 }
+];
+
+/**
+ * Solves the 3x3 homography (h33 = 1) mapping four source points onto four destination points
+ *
+ * @returns Row-major matrix [h11, h12, h13, h21, h22, h23, h31, h32, 1]
+ */
+export function computeHomography(source: NormalizedPoint[], destination: NormalizedPoint[]): number[] {
+  // Augmented 8x9 system, two rows per correspondence
+  const rows = source.flatMap(({ x, y }, i) => {
+    const { x: u, y: v } = destination[i];
+    return [
+      [x, y, 1, 0, 0, 0, -u * x, -u * y, u],
+      [0, 0, 0, x, y, 1, -v * x, -v * y, v]
+    ];
+  });
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-10) {
+      throw new Error('Strip corners are degenerate. Spread the corners apart and try again.');
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k < 9; k++) rows[row][k] -= factor * rows[col][k];
+    }
+  }
+
+  return [...rows.map((row, i) => row[8] / row[i]), 1];
+}
+
+const distance = (a: NormalizedPoint, b: NormalizedPoint): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Rectifies the strip inside an image
+ *
+ * @param imageDataUrl - Original captured or imported image
+ * @param corners - Strip corners (top-left, top-right, bottom-right, bottom-left), relative to the image
+ * @param profile - Capture profile used to encode the result
+ * @returns The rectified image and the parameters needed to reproduce it
+ */
+export async function rectifyStripImage(
+  imageDataUrl: string,
+  corners: NormalizedPoint[],
+  profile: CaptureProfile = CAPTURE_PROFILE
+): Promise<{ imageDataUrl: string; rectification: StripRectification }> {
+  const source = await loadImageData(imageDataUrl);
+  const { width, height } = source;
+  const sourceCorners = corners.map(({ x, y }) => ({ x: x * width, y: y * height }));
+
+  // Strip size in source pixels, averaged over opposite edges
+  const [topLeft, topRight, bottomRight, bottomLeft] = sourceCorners;
+  const stripWidth = (distance(topLeft, topRight) + distance(bottomLeft, bottomRight)) / 2;
+  const stripHeight = (distance(topLeft, bottomLeft) + distance(topRight, bottomRight)) / 2;
+  const scale = Math.min((width * STRIP_FILL_RATIO) / stripWidth, (height * STRIP_FILL_RATIO) / stripHeight);
+  const left = (width - stripWidth * scale) / 2;
+  const top = (height - stripHeight * scale) / 2;
+  const right = left + stripWidth * scale;
+  const bottom = top + stripHeight * scale;
+  const targetCorners = [
+    { x: left, y: top },
+    { x: right, y: top },
+    { x: right, y: bottom },
+    { x: left, y: bottom }
+  ];
+
+  // Inverse mapping: for every output pixel, find where it comes from in the source
+  const h = computeHomography(targetCorners, sourceCorners);
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    canvas.remove();
+    throw new Error('Failed to get canvas context');
+  }
+
+  try {
+    canvas.width = width;
+    canvas.height = height;
+    const output = ctx.createImageData(width, height);
+    const src = source.data;
+    const out = output.data;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const w = h[6] * x + h[7] * y + h[8];
+        const sx = (h[0] * x + h[1] * y + h[2]) / w;
+        const sy = (h[3] * x + h[4] * y + h[5]) / w;
+        const o = (y * width + x) * 4;
+        out[o + 3] = 255;
+        if (sx < 0 || sy < 0 || sx > width - 1 || sy > height - 1) continue;
+
+        // Bilinear interpolation
+        const x0 = Math.floor(sx);
+        const y0 = Math.floor(sy);
+        const x1 = Math.min(x0 + 1, width - 1);
+        const y1 = Math.min(y0 + 1, height - 1);
+        const fx = sx - x0;
+        const fy = sy - y0;
+        const i00 = (y0 * width + x0) * 4;
+        const i10 = (y0 * width + x1) * 4;
+        const i01 = (y1 * width + x0) * 4;
+        const i11 = (y1 * width + x1) * 4;
+        for (let c = 0; c < 3; c++) {
+          const topValue = src[i00 + c] + (src[i10 + c] - src[i00 + c]) * fx;
+          const bottomValue = src[i01 + c] + (src[i11 + c] - src[i01 + c]) * fx;
+          out[o + c] = Math.round(topValue + (bottomValue - topValue) * fy);
+        }
+      }
+    }
+
+    ctx.putImageData(output, 0, 0);
+    return {
+      imageDataUrl: encodeCanvasToDataUrl(canvas, profile),
+      rectification: { corners, outputWidth: width, outputHeight: height }
+    };
+  } finally {
+    canvas.remove();
+  }
+}
@@ -0,0 +1,79 @@
+import { REPLICATE_CV_THRESHOLD_PERCENT } from '@/constants/appConstants';
+import { ConcentrationResponse, PlacedCrosshair, ReplicateSummary, TestType } from '@/types';
+import { isMeasured } from '@/utils/calibration';
+
+/**
+ * Replicate readings: several points placed on the same pad, summarised
+ * with mean, SD, CV and range so inconsistent readings stand out
+ */
+
+/**
+ * Replicate groups already used by points of a test type, in ascending order
+ */
+export function getReplicateGroups(crosshairs: PlacedCrosshair[], testType: TestType): number[] {
+  const groups = new Set(
+    crosshairs.filter((ch) => ch.testType === testType && ch.replicateGroup !== undefined).map((ch) => ch.replicateGroup!)
+  );
+  return [...groups].sort((a, b) => a - b);
+}
+
+/**
+ * Summarises each replicate group from the analysis results
+ *
+ * Points the backend could not measure stay listed in the group but are left
+ * out of the statistics. Groups are ordered by their first point.
+ *
+ * @param results - Concentrations, already calibrated when a calibration is in use
+ * @param crosshairs - Placed points carrying their replicate groups
+ * @param cvThresholdPercent - CV above which a group is flagged as unreliable
+ */
+export function summarizeReplicates(
+  results: ConcentrationResponse[],
+  crosshairs: PlacedCrosshair[],
+  cvThresholdPercent: number = REPLICATE_CV_THRESHOLD_PERCENT
+): ReplicateSummary[] {
+  const groups = new Map<string, PlacedCrosshair[]>();
+  [...crosshairs]
+    .sort((a, b) => a.pointIndex - b.pointIndex)
+    .forEach((crosshair) => {
+      if (crosshair.replicateGroup === undefined) return;
+      const key = `${crosshair.testType}:${crosshair.replicateGroup}`;
+      groups.set(key, [...(groups.get(key) ?? []), crosshair]);
+    });
+
+  const summaries: ReplicateSummary[] = [];
+  groups.forEach((members) => {
+    const values = members
+      .map((member) => results.find((result) => result.pointIndex === member.pointIndex))
+      .filter((result): result is ConcentrationResponse => !!result && isMeasured(result))
+      .map((result) => result.concentration);
+    if (values.length === 0) return;
+
+    const count = values.length;
+    const mean = values.reduce((sum, value) => sum + value, 0) / count;
+    const sd = count >= 2 ? Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (count - 1)) : null;
+    const cvPercent = sd !== null && mean !== 0 ? (sd / Math.abs(mean)) * 100 : null;
+
+    summaries.push({
+      testType: members[0].testType,
+      group: members[0].replicateGroup!,
+      pointIndices: members.map((member) => member.pointIndex),
+      count,
+      mean,
+      sd,
+      cvPercent,
+      min: Math.min(...values),
+      max: Math.max(...values),
+      isUnreliable: cvPercent !== null && cvPercent > cvThresholdPercent
+    });
+  });
+
+  return summaries;
+}
+
+/**
+ * Summary of the replicate group a point belongs to, if any
+ */
+export function findReplicateSummary(summaries: ReplicateSummary[], pointIndex: number): ReplicateSummary | undefined {
+  return summaries.find((summary) => summary.pointIndices.includes(pointIndex));
+}
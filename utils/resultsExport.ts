@@ -0,0 +1,102 @@
+import { ConcentrationResponse, DerivedMetricResult, ReplicateSummary, UnitSystem } from '@/types';
+import { isMeasured } from '@/utils/calibration';
+import { findReplicateSummary } from '@/utils/replicates';
+import { formatRemarks, TestTypeRegistry } from '@/utils/testTypeRegistry';
+import { convertConcentration, getDisplayUnit } from '@/utils/unitConversion';
+
+/**
+ * CSV export of analysis results, in the user's unit system
+ */
+
+const CSV_HEADER = [
+  'point',
+  'test_type',
+  'test_name',
+  'concentration',
+  'unit',
+  'reference_low',
+  'reference_high',
+  'remarks',
+  'remarks_pre_calibration',
+  'raw_concentration',
+  'calibration_version',
+  'replicate_group',
+  'replicate_mean',
+  'replicate_sd',
+  'replicate_cv_percent',
+  'replicate_unreliable',
+  'provisional',
+  'colour_table_version'
+];
+
+const DERIVED_CSV_HEADER = ['metric', 'metric_name', 'value', 'unit', 'category', 'category_description', 'status', 'note', 'provisional'];
+
+// Quotes fields containing separators, quotes or line breaks
+const escapeCsvField = (value: string | number | null): string => {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvLines = (rows: (string | number | null)[][]): string => rows.map((row) => row.map(escapeCsvField).join(',')).join('\n');
+
+/**
+ * Builds a CSV table of results with one row per point
+ *
+ * Concentrations and reference ranges are converted to the unit system and
+ * every row names its unit, so the file is unambiguous on its own. Points that
+ * were not measured leave their concentration cells empty. Calibrated rows
+ * also carry the reported value, the calibration version and whether the
+ * remark was judged on the reported value. Rows in a replicate group repeat
+ * the group's statistics. On-device estimates are marked provisional with the
+ * colour table they were read from. Derived metrics follow as a second table
+ * after a blank line.
+ */
+export function buildResultsCsv(
+  results: ConcentrationResponse[],
+  testTypes: TestTypeRegistry,
+  unitSystem: UnitSystem,
+  replicateSummaries: ReplicateSummary[] = [],
+  derivedMetrics: DerivedMetricResult[] = []
+): string {
+  const rows = results.map((result) => {
+    const testType = testTypes.get(result.test_type);
+    const replicate = findReplicateSummary(replicateSummaries, result.pointIndex);
+    const convert = (value: number) => Number(convertConcentration(value, testType, unitSystem).toFixed(4));
+    const measured = isMeasured(result);
+    return [
+      result.pointIndex,
+      result.test_type,
+      testType.name,
+      measured ? convert(result.concentration) : null,
+      getDisplayUnit(testType, unitSystem)?.unit ?? null,
+      testType.referenceRange ? convert(testType.referenceRange.low) : null,
+      testType.referenceRange ? convert(testType.referenceRange.high) : null,
+      formatRemarks(result.remarks),
+      result.remarksPreCalibration !== undefined ? String(result.remarksPreCalibration) : null,
+      measured && result.rawConcentration !== undefined ? convert(result.rawConcentration) : null,
+      result.calibrationVersion ?? null,
+      replicate?.group ?? null,
+      replicate ? convert(replicate.mean) : null,
+      replicate?.sd != null ? convert(replicate.sd) : null,
+      replicate?.cvPercent != null ? Number(replicate.cvPercent.toFixed(2)) : null,
+      replicate ? String(replicate.isUnreliable) : null,
+      String(result.provisional ?? false),
+      result.colourTableVersion ?? null
+    ];
+  });
+
+  const derivedRows = derivedMetrics.map(({ definition, status, value, category, note, provisional }) => [
+    definition.id,
+    definition.name,
+    value !== null ? Number(convertConcentration(value, definition, unitSystem).toFixed(4)) : null,
+    getDisplayUnit(definition, unitSystem)?.unit ?? null,
+    category?.label ?? null,
+    category?.description ?? null,
+    status,
+    note,
+    String(provisional)
+  ]);
+
+  const table = toCsvLines([CSV_HEADER, ...rows]);
+  return derivedRows.length > 0 ? `${table}\n\n${toCsvLines([DERIVED_CSV_HEADER, ...derivedRows])}` : table;
+}
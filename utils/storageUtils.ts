@@ -0,0 +1,40 @@
+/**
+ * Local storage helpers for persisting user preferences between sessions
+ *
+ * All access is guarded so the helpers are safe to call during server
+ * rendering and when storage is unavailable (private mode, quota exceeded).
+ */
+
+/**
+ * Reads and parses a JSON value from local storage
+ *
+ * @param key - Storage key
+ * @param fallback - Value returned when nothing is stored or parsing fails
+ */
+export function loadFromStorage<T>(key: string, fallback: T): T {
+  if (typeof window === 'undefined') return fallback;
+
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch (error) {
+    console.warn(`Failed to read "${key}" from storage:`, error);
+    return fallback;
+  }
+}
+
+/**
+ * Serialises a value to JSON and writes it to local storage
+ *
+ * @param key - Storage key
+ * @param value - Value to store
+ */
+export function saveToStorage<T>(key: string, value: T): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Failed to write "${key}" to storage:`, error);
+  }
+}
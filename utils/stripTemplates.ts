@@ -0,0 +1,137 @@
+import { STRIP_TEMPLATES_FILE_VERSION } from '@/constants/appConstants';
+import { PlacedCrosshair, SamplingRegion, StripTemplate, StripTemplatePoint } from '@/types';
+import { createPointId } from '@/utils/crosshairUtils';
+import { TestTypeRegistry } from '@/utils/testTypeRegistry';
+
+/**
+ * Strip layout templates: saving, applying and sharing crosshair layouts
+ */
+
+interface StripTemplateFile {
+  version: number;
+  templates: StripTemplate[];
+}
+
+const isUnitValue = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 1;
+
+const isSamplingRegion = (value: unknown): value is SamplingRegion => {
+  const region = value as Partial<Record<string, unknown>> | null;
+  if (region?.shape === 'circle') return isUnitValue(region.radius);
+  return region?.shape === 'rect' && isUnitValue(region.width) && isUnitValue(region.height);
+};
+
+// Copies only the template fields, leaving out sampled colours and IDs
+const toTemplatePoint = ({ x, y, testType, region, replicateGroup }: StripTemplatePoint): StripTemplatePoint => ({
+  x,
+  y,
+  testType,
+  ...(region && { region }),
+  ...(replicateGroup !== undefined && { replicateGroup })
+});
+
+const createTemplateId = (): string => `template-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+// Validates one template from an import file or storage, throwing on the first problem
+const validateTemplate = (candidate: Partial<StripTemplate>, index: number, testTypes: TestTypeRegistry): StripTemplate => {
+  const label = typeof candidate?.name === 'string' && candidate.name.trim() ? `"${candidate.name}"` : `#${index + 1}`;
+  if (typeof candidate?.name !== 'string' || !candidate.name.trim() || !Array.isArray(candidate.points)) {
+    throw new Error(`Template ${label} is missing a name or points.`);
+  }
+
+  const points = candidate.points.filter(
+    (point: Partial<StripTemplatePoint>) =>
+      isUnitValue(point?.x) &&
+      isUnitValue(point?.y) &&
+      typeof point?.testType === 'string' &&
+      testTypes.has(point.testType) &&
+      (point.region === undefined || isSamplingRegion(point.region)) &&
+      (point.replicateGroup === undefined || (Number.isInteger(point.replicateGroup) && point.replicateGroup > 0))
+  );
+  if (points.length !== candidate.points.length || points.length === 0) {
+    throw new Error(`Template ${label} contains invalid points.`);
+  }
+  if (points.filter((point) => testTypes.isReference(point.testType)).length > 1) {
+    throw new Error(`Template ${label} has more than one ${testTypes.referenceType.name.toLowerCase()}.`);
+  }
+
+  return {
+    id: typeof candidate.id === 'string' && candidate.id ? candidate.id : createTemplateId(),
+    name: candidate.name.trim(),
+    createdAt: typeof candidate.createdAt === 'string' ? candidate.createdAt : new Date().toISOString(),
+    points: points.map(toTemplatePoint)
+  };
+};
+
+/**
+ * Creates a template from the current placements
+ */
+export function createTemplate(name: string, crosshairs: PlacedCrosshair[]): StripTemplate {
+  return {
+    id: createTemplateId(),
+    name: name.trim(),
+    createdAt: new Date().toISOString(),
+    points: [...crosshairs].sort((a, b) => a.pointIndex - b.pointIndex).map(toTemplatePoint)
+  };
+}
+
+/**
+ * Turns a template into placed crosshairs with fresh IDs, numbered in template order
+ */
+export function applyTemplate(template: StripTemplate): PlacedCrosshair[] {
+  return template.points.map((point, index) => ({
+    id: createPointId(),
+    x: point.x,
+    y: point.y,
+    testType: point.testType,
+    region: point.region,
+    replicateGroup: point.replicateGroup,
+    pointIndex: index + 1
+  }));
+}
+
+/**
+ * Serialises templates for export
+ */
+export function serializeTemplates(templates: StripTemplate[]): string {
+  const file: StripTemplateFile = { version: STRIP_TEMPLATES_FILE_VERSION, templates };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parses and validates an exported template file
+ *
+ * @param testTypes - Registry the points' test types must exist in
+ * @throws Error describing the first problem found, suitable for a toast
+ */
+export function parseTemplates(json: string, testTypes: TestTypeRegistry): StripTemplate[] {
+  let file: Partial<StripTemplateFile>;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new Error('Template file is not valid JSON.');
+  }
+
+  if (file?.version !== STRIP_TEMPLATES_FILE_VERSION || !Array.isArray(file.templates)) {
+    throw new Error('Unsupported template file format.');
+  }
+
+  return file.templates.map((candidate, index) => validateTemplate(candidate, index, testTypes));
+}
+
+/**
+ * Validates templates read back from local storage
+ *
+ * Templates that fail the import checks are dropped so corrupted storage
+ * cannot break the page.
+ */
+export function restoreTemplates(stored: unknown, testTypes: TestTypeRegistry): StripTemplate[] {
+  if (!Array.isArray(stored)) return [];
+  return stored.flatMap((candidate, index) => {
+    try {
+      return [validateTemplate(candidate, index, testTypes)];
+    } catch (error) {
+      console.warn('Dropping invalid stored strip template:', error);
+      return [];
+    }
+  });
+}
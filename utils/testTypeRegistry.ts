@@ -0,0 +1,135 @@
+import defaultTestTypes from '@/constants/testTypes.json';
+import { ConcentrationResponse, ReferenceRange, TestType, TestTypeDefinition, UnitConversion } from '@/types';
+import { getContrastingTextColor } from '@/utils/colorUtils';
+
+/**
+ * Test-type registry: the analytes and reference pads the app can place,
+ * with their display names, colours, units and reference ranges
+ *
+ * Entries are listed in reagent pad order along the strip, so detected pads
+ * take their analyte types from the registry order.
+ */
+
+export interface TestTypeRegistry {
+  types: TestTypeDefinition[]; // Registry order
+  referenceType: TestTypeDefinition; // The single calibration entry, e.g. the white reference
+  analyteTypes: TestTypeDefinition[]; // Non-reference entries, in pad order
+  has: (id: TestType) => boolean;
+  get: (id: TestType) => TestTypeDefinition; // Unknown IDs (e.g. from old templates) get a neutral placeholder
+  isReference: (id: TestType) => boolean;
+}
+
+const UNKNOWN_TYPE_COLOR = '#6b7280';
+
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+const isReferenceRange = (value: unknown): value is ReferenceRange => {
+  const range = value as Partial<Record<string, unknown>> | null;
+  return typeof range?.low === 'number' && typeof range.high === 'number' && range.low <= range.high;
+};
+
+export const isUnitConversion = (value: unknown): value is UnitConversion => {
+  const conversion = value as Partial<Record<string, unknown>> | null;
+  return typeof conversion?.unit === 'string' && !!conversion.unit && typeof conversion.factor === 'number' && conversion.factor > 0;
+};
+
+/**
+ * Validates test-type definitions from the bundled config or the backend
+ *
+ * Accepts either an array of definitions or an object with a `testTypes` array.
+ *
+ * @throws Error describing the first invalid entry
+ */
+export function parseTestTypes(value: unknown): TestTypeDefinition[] {
+  const candidates = Array.isArray(value) ? value : (value as { testTypes?: unknown } | null)?.testTypes;
+  if (!Array.isArray(candidates) || candidates.length === 0) {
+    throw new Error('Test-type registry is empty or malformed.');
+  }
+
+  const definitions = candidates.map((candidate: Partial<Record<keyof TestTypeDefinition, unknown>>, index): TestTypeDefinition => {
+    const label = typeof candidate?.id === 'string' && candidate.id ? `"${candidate.id}"` : `#${index + 1}`;
+    if (typeof candidate?.id !== 'string' || !candidate.id || typeof candidate.name !== 'string' || !candidate.name.trim()) {
+      throw new Error(`Test type ${label} is missing an ID or name.`);
+    }
+    if (typeof candidate.color !== 'string' || !HEX_COLOR_PATTERN.test(candidate.color)) {
+      throw new Error(`Test type ${label} needs a colour like #16a34a.`);
+    }
+    if (candidate.unit != null && typeof candidate.unit !== 'string') {
+      throw new Error(`Test type ${label} has an invalid unit.`);
+    }
+    if (candidate.siUnit != null && !isUnitConversion(candidate.siUnit)) {
+      throw new Error(`Test type ${label} has an invalid SI unit conversion.`);
+    }
+    if (candidate.referenceRange != null && !isReferenceRange(candidate.referenceRange)) {
+      throw new Error(`Test type ${label} has an invalid reference range.`);
+    }
+
+    return {
+      id: candidate.id,
+      name: candidate.name.trim(),
+      color: candidate.color,
+      unit: typeof candidate.unit === 'string' ? candidate.unit : null,
+      siUnit: candidate.siUnit != null ? (candidate.siUnit as UnitConversion) : null,
+      referenceRange: candidate.referenceRange != null ? (candidate.referenceRange as ReferenceRange) : null,
+      isReference: candidate.isReference === true
+    };
+  });
+
+  if (new Set(definitions.map((definition) => definition.id)).size !== definitions.length) {
+    throw new Error('Test-type registry contains duplicate IDs.');
+  }
+  if (definitions.filter((definition) => definition.isReference).length !== 1) {
+    throw new Error('Test-type registry needs exactly one reference type.');
+  }
+  if (definitions.every((definition) => definition.isReference)) {
+    throw new Error('Test-type registry needs at least one analyte.');
+  }
+
+  return definitions;
+}
+
+/**
+ * Builds lookups over validated definitions
+ */
+export function createTestTypeRegistry(definitions: TestTypeDefinition[]): TestTypeRegistry {
+  const byId = new Map(definitions.map((definition) => [definition.id, definition]));
+  const referenceType = definitions.find((definition) => definition.isReference) ?? definitions[0];
+
+  return {
+    types: definitions,
+    referenceType,
+    analyteTypes: definitions.filter((definition) => !definition.isReference),
+    has: (id) => byId.has(id),
+    get: (id) =>
+      byId.get(id) ?? { id, name: id, color: UNKNOWN_TYPE_COLOR, unit: null, siUnit: null, referenceRange: null, isReference: false },
+    isReference: (id) => byId.get(id)?.isReference ?? false
+  };
+}
+
+// Bundled registry, used until (or instead of) the backend's
+export const DEFAULT_TEST_TYPE_REGISTRY = createTestTypeRegistry(parseTestTypes(defaultTestTypes));
+
+/**
+ * Classifies a measured concentration against the test type's reference range
+ *
+ * @returns 'unclassified' when the test type has no reference range
+ */
+export function classifyConcentration(concentration: number, definition: TestTypeDefinition): ConcentrationResponse['remarks'] {
+  if (!definition.referenceRange) return 'unclassified';
+  if (concentration < definition.referenceRange.low) return 'low';
+  return concentration > definition.referenceRange.high ? 'high' : 'normal';
+}
+
+/**
+ * Remark as shown in results and exports; unclassified results show a dash
+ */
+export function formatRemarks(remarks: ConcentrationResponse['remarks']): string {
+  return remarks === 'unclassified' ? '—' : remarks;
+}
+
+/**
+ * Inline colours for a test type's badge, marker label or picker
+ */
+export function getTestTypeBadgeStyle(definition: TestTypeDefinition): { backgroundColor: string; color: string } {
+  return { backgroundColor: definition.color, color: getContrastingTextColor(definition.color) };
+}
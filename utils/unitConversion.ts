@@ -0,0 +1,48 @@
+import { TestTypeDefinition, UnitConversion, UnitSystem } from '@/types';
+
+/**
+ * Concentration units: backend results are reported in each test type's
+ * `unit` and converted to the user's unit system for display and export
+ */
+
+// Anything reported in a unit with an optional SI equivalent, e.g. a test type or a derived metric
+type UnitDefinition = Pick<TestTypeDefinition, 'unit' | 'siUnit'>;
+
+/**
+ * Unit and conversion factor for showing a test type's results in a unit system
+ *
+ * Falls back to the reported unit when the test type has no SI equivalent.
+ *
+ * @returns Null for unitless test types such as the white reference
+ */
+export function getDisplayUnit(testType: UnitDefinition, unitSystem: UnitSystem): UnitConversion | null {
+  if (unitSystem === 'si' && testType.siUnit) return testType.siUnit;
+  return testType.unit ? { unit: testType.unit, factor: 1 } : null;
+}
+
+/**
+ * Converts a reported concentration to the unit system
+ */
+export function convertConcentration(value: number, testType: UnitDefinition, unitSystem: UnitSystem): number {
+  return value * (getDisplayUnit(testType, unitSystem)?.factor ?? 1);
+}
+
+/**
+ * Compact value for overlay labels: whole numbers from 100, three significant digits below
+ */
+export function formatCompactValue(value: number): string {
+  return Math.abs(value) >= 100 ? Math.round(value).toString() : Number(value.toPrecision(3)).toString();
+}
+
+/**
+ * Reference range in the unit system, e.g. "0.60–1.20 mg/dL"
+ *
+ * @returns Null when the test type has no reference range
+ */
+export function formatReferenceRange(testType: TestTypeDefinition, unitSystem: UnitSystem): string | null {
+  if (!testType.referenceRange) return null;
+  const unit = getDisplayUnit(testType, unitSystem)?.unit;
+  const low = convertConcentration(testType.referenceRange.low, testType, unitSystem);
+  const high = convertConcentration(testType.referenceRange.high, testType, unitSystem);
+  return `${low.toFixed(2)}–${high.toFixed(2)}${unit ? ` ${unit}` : ''}`;
+}
@@ -1,28 +1,50 @@
+import { CAPTURE_PROFILE } from '@/constants/appConstants';
+import { CaptureProfile, ExtendedTrackCapabilities, ExtendedTrackConstraintSet, ExtendedTrackSettings, ZoomMode } from '@/types';
+import { getVideoTrack } from '@/utils/cameraSettingsUtils';
+import { encodeCanvasToBlob, encodeCanvasToDataUrl, getOutputScale } from '@/utils/captureProfile';
+
+export interface ExtractFrameOptions {
+  /** Capture profile for zoom, encoding and output size (defaults to CAPTURE_PROFILE) */
+  profile?: CaptureProfile;
+  /** Overrides the profile's output size, e.g. for small on-device analysis frames */
+  maxDimension?: number | null;
+}
+
+// Largest difference between requested and reported track zoom still treated as native zoom
+const NATIVE_ZOOM_TOLERANCE = 0.05;
+
+// Zoom mode currently applied to each video element, set by applyVideoZoom
+const activeZoomModes = new WeakMap<HTMLVideoElement, ZoomMode>();
+
 /**
- * BIOMEDICAL CRITICAL: 2.5x zoom ensures adequate detail for color analysis
- * This zoom level provides optimal balance between:
- * - Color sampling accuracy (larger pixels = better color detection)
- * - Field of view (captures full test strip area)
- * - Image stability (manageable camera shake)
+ * Returns how zoom is currently applied to a video element
+ *
+ * - 'native': the camera track itself is zoomed, frames are already magnified
+ * - 'css': the preview is scaled with CSS, frames must be cropped on capture
+ * - null: no zoom has been applied yet
  */
-export const CAMERA_ZOOM_FACTOR = 2.5;
+export function getVideoZoomMode(videoElement: HTMLVideoElement): ZoomMode | null {
+  return activeZoomModes.get(videoElement) ?? null;
+}
 
 /**
  * Extracts high-quality image for biomedical color analysis
  *
- * CRITICAL: Uses 2.5x zoom crop to maintain consistent magnification
- * across capture/preview/analysis pipeline. Quality set to 92% minimum
- * to preserve color fidelity for accurate concentration measurements.
+ * CRITICAL: Uses the profile's zoom crop to maintain consistent magnification
+ * across capture/preview/analysis pipeline. When the camera track is
+ * zoomed natively the full frame is used, so zoom is never applied twice.
+ * Encoding follows the capture profile (lossless by default) to preserve
+ * color fidelity for accurate concentration measurements.
  *
  * @param videoElement - Live video stream
- * @param format - 'blob' for upload, 'dataURL' for display
- * @param quality - JPEG quality (0.92+ recommended for medical accuracy)
+ * @param format - 'blob' for upload, 'dataURL' for display, 'imageData' for on-device pixel analysis
+ * @param options - Capture profile and optional output size override
  */
 export async function extractZoomedFrame(
   videoElement: HTMLVideoElement,
-  format: 'dataURL' | 'blob' = 'dataURL',
-  quality: number = 0.92
-): Promise<string | Blob> {
+  format: 'dataURL' | 'blob' | 'imageData' = 'dataURL',
+  { profile = CAPTURE_PROFILE, maxDimension = profile.maxOutputDimension }: ExtractFrameOptions = {}
+): Promise<string | Blob | ImageData> {
   // Basic null check for critical errors
   if (!videoElement) {
     throw new Error('Video element is required');
@@ -39,17 +61,21 @@ export async function extractZoomedFrame(
   const videoWidth = videoElement.videoWidth;
   const videoHeight = videoElement.videoHeight;
 
-  // Calculate the size of the cropped area (1/zoomFactor of the original)
-  const cropWidth = videoWidth / CAMERA_ZOOM_FACTOR;
-  const cropHeight = videoHeight / CAMERA_ZOOM_FACTOR;
+  // Calculate the size of the cropped area (1/zoomFactor of the original).
+  // Natively zoomed tracks already deliver magnified frames, so no crop is needed.
+  const cropFactor = getVideoZoomMode(videoElement) === 'native' ? 1 : profile.zoomFactor;
+  const cropWidth = videoWidth / cropFactor;
+  const cropHeight = videoHeight / cropFactor;
 
   // Calculate the offset to center the crop
   const offsetX = (videoWidth - cropWidth) / 2;
   const offsetY = (videoHeight - cropHeight) / 2;
 
-  // Set canvas size to the original video dimensions (to maintain resolution)
-  canvas.width = videoWidth;
-  canvas.height = videoHeight;
+  // Set canvas size to the original video dimensions (to maintain resolution),
+  // unless the profile or caller asks for a smaller output
+  const outputScale = getOutputScale(videoWidth, videoHeight, maxDimension);
+  canvas.width = Math.round(videoWidth * outputScale);
+  canvas.height = Math.round(videoHeight * outputScale);
 
   // Draw only the center portion of the video, scaled up to fill the canvas
   ctx.drawImage(
@@ -66,19 +92,12 @@ export async function extractZoomedFrame(
 
   try {
     if (format === 'dataURL') {
-      return canvas.toDataURL('image/jpeg', quality);
+      return encodeCanvasToDataUrl(canvas, profile);
+    } else if (format === 'imageData') {
+      return ctx.getImageData(0, 0, canvas.width, canvas.height);
     } else {
       // Convert canvas to blob
-      return new Promise<Blob>((resolve, reject) => {
-        canvas.toBlob(
-          (blob) => {
-            if (blob) resolve(blob);
-            else reject(new Error('Failed to create blob from canvas'));
-          },
-          'image/jpeg',
-          quality
-        );
-      });
+      return encodeCanvasToBlob(canvas, profile);
     }
   } finally {
     // Always clean up the canvas
@@ -87,18 +106,50 @@ export async function extractZoomedFrame(
 }
 
 /**
- * Applies consistent 2.5x zoom for biomedical analysis
+ * Applies the capture profile's zoom (2.5x by default) for biomedical analysis
  *
- * Uses CSS transform exclusively for zoom - no media API zoom.
+ * Prefers the camera's hardware/driver zoom (`MediaStreamTrack` zoom
+ * constraint), which keeps the full sensor resolution for colour sampling.
+ * Falls back to a CSS transform when the track's zoom range does not include the factor
+ * or does not report it in its settings after applying.
  * Consistent zoom is CRITICAL for:
  * - Accurate color measurement
  * - Matching capture/preview views
  * - Reliable concentration calculations
+ *
+ * @returns The zoom mode that was applied
  */
-export async function applyVideoZoom(videoElement: HTMLVideoElement): Promise<void> {
-  // Apply CSS transform for 2.5x zoom
-  videoElement.style.transform = `scale(${CAMERA_ZOOM_FACTOR})`;
+export async function applyVideoZoom(videoElement: HTMLVideoElement, profile: CaptureProfile = CAPTURE_PROFILE): Promise<ZoomMode> {
+  const { zoomFactor } = profile;
+  const track = getVideoTrack(videoElement);
+  const capabilities = track?.getCapabilities?.() as ExtendedTrackCapabilities | undefined;
+
+  // A minimum zoom above the factor would overshoot it, so the factor must lie within the track's range
+  if (track && capabilities?.zoom && capabilities.zoom.min <= zoomFactor && capabilities.zoom.max >= zoomFactor) {
+    try {
+      await track.applyConstraints({ advanced: [{ zoom: zoomFactor } as ExtendedTrackConstraintSet] });
+      // Advanced constraints are best-effort: the track may ignore them without rejecting
+      const appliedZoom = (track.getSettings() as ExtendedTrackSettings).zoom;
+      if (appliedZoom !== undefined && Math.abs(appliedZoom - zoomFactor) <= NATIVE_ZOOM_TOLERANCE) {
+        resetVideoZoom(videoElement);
+        activeZoomModes.set(videoElement, 'native');
+        return 'native';
+      }
+      console.warn(`Camera applied zoom ${appliedZoom ?? 'unknown'} instead of ${zoomFactor}, falling back to CSS zoom`);
+      // Undo any partial native zoom so the CSS scale is not applied on top of it
+      if (appliedZoom !== undefined && appliedZoom !== capabilities.zoom.min) {
+        await track.applyConstraints({ advanced: [{ zoom: capabilities.zoom.min } as ExtendedTrackConstraintSet] });
+      }
+    } catch (error) {
+      console.warn('Native zoom failed, falling back to CSS zoom:', error);
+    }
+  }
+
+  // Apply CSS transform zoom
+  videoElement.style.transform = `scale(${zoomFactor})`;
   videoElement.style.transformOrigin = 'center';
+  activeZoomModes.set(videoElement, 'css');
+  return 'css';
 }
 
 /**
@@ -110,4 +161,5 @@ export function resetVideoZoom(videoElement: HTMLVideoElement): void {
 
   videoElement.style.transform = '';
   videoElement.style.transformOrigin = '';
+  activeZoomModes.delete(videoElement);
 }